@@ -1,5 +1,27 @@
 import { exec } from 'child_process';
 import { isWindows, isMac } from './config';
+import { audioInputDevice } from './state';
+
+/**
+ * A microphone or other capture device SoX can record from
+ */
+export interface AudioInputDevice {
+  // Device name passed to SoX
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+/**
+ * SoX input arguments plus a warning when the chosen device was not used
+ */
+export interface SoxAudioInput {
+  args: string[];
+  warning: string | null;
+}
+
+// SoX's waveaudio driver matches at most this many characters of a device name
+const WAVEAUDIO_NAME_LENGTH = 31;
 
 // Cached Linux audio backend
 let detectedLinuxAudio: string | null = null;
@@ -42,20 +64,140 @@ export function detectLinuxAudioBackend(): Promise<string> {
 }
 
 /**
- * Get platform-specific audio input arguments for SoX
+ * Run a command and resolve with stdout ('' on failure)
+ */
+function run(command: string): Promise<string> {
+  return new Promise((resolve) => {
+    exec(command, { timeout: 5000, windowsHide: true }, (err, stdout) => {
+      resolve(err ? '' : stdout);
+    });
+  });
+}
+
+/**
+ * List PulseAudio/PipeWire sources, skipping monitors of output devices
+ */
+async function listPulseSources(): Promise<AudioInputDevice[]> {
+  const [info, sources] = await Promise.all([run('pactl info'), run('pactl list sources')]);
+  const defaultSource = info.match(/^Default Source:\s*(.+)$/m)?.[1].trim();
+
+  const devices: AudioInputDevice[] = [];
+  for (const block of sources.split(/^Source #/m).slice(1)) {
+    const id = block.match(/^\s*Name:\s*(.+)$/m)?.[1].trim();
+    if (!id || id.endsWith('.monitor')) continue;
+    const name = block.match(/^\s*Description:\s*(.+)$/m)?.[1].trim() || id;
+    devices.push({ id, name, isDefault: id === defaultSource });
+  }
+  return devices;
+}
+
+/**
+ * List ALSA capture devices from arecord
+ */
+async function listAlsaDevices(): Promise<AudioInputDevice[]> {
+  const output = await run('arecord -l');
+  const devices: AudioInputDevice[] = [];
+
+  // card 1: USB [USB Audio], device 0: USB Audio [USB Audio]
+  const pattern = /^card (\d+): [^[]*\[([^\]]*)\], device (\d+): [^[]*\[([^\]]*)\]/gm;
+  for (const match of Array.from(output.matchAll(pattern))) {
+    const [, card, cardName, device, deviceName] = match;
+    devices.push({
+      // plughw converts to the sample rate SoX asks for
+      id: `plughw:${card},${device}`,
+      name: `${cardName} - ${deviceName}`,
+      isDefault: false
+    });
+  }
+  return devices;
+}
+
+/**
+ * List CoreAudio input devices on macOS
+ */
+async function listMacDevices(): Promise<AudioInputDevice[]> {
+  const output = await run('system_profiler SPAudioDataType -json');
+  try {
+    const items = JSON.parse(output).SPAudioDataType?.[0]?._items || [];
+    return items
+      .filter((item: any) => item.coreaudio_device_input)
+      .map((item: any) => ({
+        id: item._name,
+        name: item._name,
+        isDefault: item.coreaudio_default_audio_input_device === 'spaudio_yes'
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List capture endpoints on Windows
+ */
+async function listWindowsDevices(): Promise<AudioInputDevice[]> {
+  // Capture endpoints have instance ids under {0.0.1.00000000}
+  const script = "Get-PnpDevice -Class AudioEndpoint -Status OK | Where-Object { $_.InstanceId -like '*{0.0.1.00000000}*' } | ForEach-Object { $_.FriendlyName }";
+  const output = await run(`powershell -NoProfile -Command "${script}"`);
+
+  return output.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(name => ({ id: name.substring(0, WAVEAUDIO_NAME_LENGTH), name, isDefault: false }));
+}
+
+/**
+ * List the audio input devices available to SoX on this platform
+ */
+export async function listAudioInputDevices(): Promise<AudioInputDevice[]> {
+  try {
+    if (isWindows) return await listWindowsDevices();
+    if (isMac) return await listMacDevices();
+
+    const backend = await detectLinuxAudioBackend();
+    return backend === 'pulseaudio' ? await listPulseSources() : await listAlsaDevices();
+  } catch (err) {
+    console.error('Failed to list audio input devices:', err);
+    return [];
+  }
+}
+
+/**
+ * SoX arguments for a device name ('' for the system default)
  */
-export async function getSoxAudioInputArgs(): Promise<string[]> {
+async function soxInputArgs(device: string): Promise<string[]> {
   if (isWindows) {
-    return ['-t', 'waveaudio', '-d']; // Windows audio driver
+    return device ? ['-t', 'waveaudio', device] : ['-t', 'waveaudio', '-d']; // Windows audio driver
   } else if (isMac) {
-    return ['-t', 'coreaudio', 'default']; // macOS CoreAudio
+    return ['-t', 'coreaudio', device || 'default']; // macOS CoreAudio
   } else {
     // Linux - detect available audio backend
     const backend = await detectLinuxAudioBackend();
     if (backend === 'pulseaudio') {
-      return ['-t', 'pulseaudio', 'default'];
+      return ['-t', 'pulseaudio', device || 'default'];
     } else {
-      return ['-t', 'alsa', 'default'];
+      return ['-t', 'alsa', device || 'default'];
     }
   }
 }
+
+/**
+ * Get platform-specific audio input arguments for SoX
+ *
+ * Uses the selected device when it is still connected, otherwise the system
+ * default with a warning for the user.
+ */
+export async function getSoxAudioInputArgs(): Promise<SoxAudioInput> {
+  if (!audioInputDevice) {
+    return { args: await soxInputArgs(''), warning: null };
+  }
+
+  const devices = await listAudioInputDevices();
+  // An empty list means enumeration failed, so try the device anyway
+  if (devices.length === 0 || devices.some(device => device.id === audioInputDevice)) {
+    return { args: await soxInputArgs(audioInputDevice), warning: null };
+  }
+
+  const warning = `Microphone "${audioInputDevice}" is not connected, using the default input instead`;
+  console.warn(warning);
+  return { args: await soxInputArgs(''), warning };
+}
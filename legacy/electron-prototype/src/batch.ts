@@ -0,0 +1,316 @@
+import { app } from 'electron';
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { soxExe, soxDir, isWindows, BATCH_CONCURRENCY, BATCH_AUDIO_EXTENSIONS } from './config';
+import { processRecording } from './transcription';
+import { getMode, getCurrentModeDefinition } from './modes';
+import { applyReplacements, applySegmentReplacements } from './dictionary';
+import { isRecordingFormat, wavDurationSeconds, SAMPLE_RATE, CHANNELS, BYTES_PER_SAMPLE } from './wav';
+import { ExportFormat, formatTranscript, isExportFormat } from './formats';
+import { AppError, ErrorReport, toAppError, toErrorReport } from './errors';
+
+export type BatchFileState = 'pending' | 'converting' | 'transcribing' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * One file in a batch job
+ */
+export interface BatchFile {
+  sourcePath: string;
+  state: BatchFileState;
+  // Latest progress text
+  detail: string;
+  // One file per export format once done
+  outputPaths: string[];
+  error: ErrorReport | null;
+}
+
+/**
+ * A set of existing audio files transcribed together
+ */
+export interface BatchJob {
+  id: string;
+  mode: string;
+  // Folder for transcripts (null writes each next to its source)
+  outputDir: string | null;
+  formats: ExportFormat[];
+  files: BatchFile[];
+  startedAt: number;
+  finished: boolean;
+}
+
+/**
+ * Files and options for a new batch job
+ */
+export interface BatchRequest {
+  files: string[];
+  outputDir?: string | null;
+  // Mode id (defaults to the current mode)
+  mode?: string;
+  // Export formats written for each file (defaults to plain text)
+  formats?: ExportFormat[];
+}
+
+type BatchListener = (job: BatchJob) => void;
+
+// Converted copies of files sox had to convert
+const BATCH_TEMP_DIR = path.join(app.getPath('temp'), 'clarifyvoice-batch');
+
+let job: BatchJob | null = null;
+let cancelRequested = false;
+const progressListeners: BatchListener[] = [];
+
+/**
+ * Send a copy of the job to listeners (main window progress view)
+ */
+function notifyProgress() {
+  if (!job) return;
+  const snapshot = getBatchJob() as BatchJob;
+  for (const listener of progressListeners) {
+    try {
+      listener(snapshot);
+    } catch (err) {
+      console.error('Batch progress listener failed:', err);
+    }
+  }
+}
+
+/**
+ * Change a file's state and report it
+ */
+function updateFile(file: BatchFile, changes: Partial<BatchFile>) {
+  Object.assign(file, changes);
+  notifyProgress();
+}
+
+/**
+ * Subscribe to batch progress
+ */
+export function onBatchProgress(listener: BatchListener) {
+  progressListeners.push(listener);
+}
+
+/**
+ * The current or last batch job
+ */
+export function getBatchJob(): BatchJob | null {
+  return job ? { ...job, files: job.files.map(file => ({ ...file })) } : null;
+}
+
+/**
+ * Convert any audio sox can read to a WAV in the recording format
+ */
+function convertToWav(sourcePath: string, targetPath: string): Promise<void> {
+  const args = [
+    sourcePath,
+    '-r', String(SAMPLE_RATE),
+    '-c', String(CHANNELS),
+    '-b', String(BYTES_PER_SAMPLE * 8),
+    '-e', 'signed-integer',
+    targetPath
+  ];
+
+  const spawnOptions: any = { windowsHide: true };
+  if (isWindows && soxDir) {
+    spawnOptions.cwd = soxDir;
+  }
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn(soxExe, args, spawnOptions);
+    let stderr = '';
+
+    proc.stderr?.on('data', (data) => {
+      stderr = (stderr + data.toString()).slice(-500);
+    });
+    proc.on('error', (err) => reject(new AppError('sox', 'SoX', err.message)));
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new AppError('sox', 'SoX', stderr.trim() || `sox exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Pick a transcript path that does not overwrite an existing file
+ */
+function outputPathFor(sourcePath: string, outputDir: string | null, extension: string): string {
+  const dir = outputDir || path.dirname(sourcePath);
+  const base = path.parse(sourcePath).name;
+
+  let candidate = path.join(dir, `${base}.${extension}`);
+  for (let n = 1; fs.existsSync(candidate); n++) {
+    candidate = path.join(dir, `${base} (${n}).${extension}`);
+  }
+  return candidate;
+}
+
+/**
+ * Convert (if needed), transcribe and save one file
+ */
+async function processBatchFile(current: BatchJob, index: number) {
+  const file = current.files[index];
+  const mode = getMode(current.mode) || getCurrentModeDefinition();
+  let convertedPath: string | null = null;
+
+  try {
+    let audioPath = file.sourcePath;
+    if (!isRecordingFormat(audioPath)) {
+      updateFile(file, { state: 'converting', detail: 'Converting...' });
+      fs.mkdirSync(BATCH_TEMP_DIR, { recursive: true });
+      convertedPath = path.join(BATCH_TEMP_DIR, `${current.id}_${index}.wav`);
+      await convertToWav(audioPath, convertedPath);
+      audioPath = convertedPath;
+    }
+
+    if (cancelRequested) {
+      updateFile(file, { state: 'cancelled', detail: '' });
+      return;
+    }
+
+    updateFile(file, { state: 'transcribing', detail: 'Transcribing...' });
+    const result = await processRecording({ audioPath }, mode, (detail) => updateFile(file, { detail }));
+
+    const doc = {
+      title: path.parse(file.sourcePath).name,
+      createdAt: Date.now(),
+      mode: mode.id,
+      provider: result.providerId,
+      duration: wavDurationSeconds(audioPath),
+      text: applyReplacements(result.text),
+      rawText: applyReplacements(result.rawText),
+      segments: applySegmentReplacements(result.segments || []),
+      sourcePath: file.sourcePath
+    };
+
+    const outputPaths = current.formats.map(format => {
+      const outputPath = outputPathFor(file.sourcePath, current.outputDir, format);
+      fs.writeFileSync(outputPath, formatTranscript(doc, format), 'utf-8');
+      return outputPath;
+    });
+    updateFile(file, { state: 'done', detail: '', outputPaths });
+  } catch (err) {
+    const error = toAppError(err, path.basename(file.sourcePath));
+    console.error(`Batch file failed: ${file.sourcePath}:`, error.message);
+    updateFile(file, { state: 'failed', detail: '', error: toErrorReport(error) });
+  } finally {
+    if (convertedPath) {
+      try {
+        fs.rmSync(convertedPath, { force: true });
+      } catch (err) {
+        console.warn('Could not delete converted file:', convertedPath, err);
+      }
+    }
+  }
+}
+
+/**
+ * Check a file before it is queued; returns the problem or null
+ */
+function checkBatchFile(filePath: string): string | null {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (!BATCH_AUDIO_EXTENSIONS.includes(extension)) {
+    return `Unsupported file type: .${extension || '(none)'}`;
+  }
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    return 'File not found';
+  }
+  return null;
+}
+
+/**
+ * Transcribe files with at most BATCH_CONCURRENCY running at once
+ */
+async function runBatch(current: BatchJob) {
+  let next = 0;
+  const worker = async () => {
+    while (!cancelRequested && next < current.files.length) {
+      const index = next++;
+      if (current.files[index].state === 'pending') {
+        await processBatchFile(current, index);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, current.files.length) }, worker));
+
+  for (const file of current.files) {
+    if (file.state === 'pending') {
+      file.state = 'cancelled';
+    }
+  }
+  current.finished = true;
+  notifyProgress();
+
+  const done = current.files.filter(file => file.state === 'done').length;
+  console.log(`Batch ${current.id} finished: ${done} of ${current.files.length} transcribed`);
+}
+
+/**
+ * Start a batch job; returns problems that prevented it from starting
+ *
+ * Files that cannot be read are listed as failed instead of stopping the job.
+ */
+export function startBatch(request: BatchRequest): string[] {
+  if (job && !job.finished) {
+    return ['A batch is already running'];
+  }
+
+  const files = Array.isArray(request.files) ? request.files.filter(file => typeof file === 'string') : [];
+  if (files.length === 0) {
+    return ['No files selected'];
+  }
+
+  const outputDir = request.outputDir || null;
+  if (outputDir && !(fs.existsSync(outputDir) && fs.statSync(outputDir).isDirectory())) {
+    return [`Output folder not found: ${outputDir}`];
+  }
+
+  const mode = request.mode ? getMode(request.mode) : getCurrentModeDefinition();
+  if (!mode) {
+    return [`Unknown mode: ${request.mode}`];
+  }
+
+  const formats = Array.isArray(request.formats) && request.formats.length > 0 ? request.formats : ['txt'];
+  const unknownFormats = formats.filter(format => !isExportFormat(format));
+  if (unknownFormats.length > 0) {
+    return [`Unknown export format: ${unknownFormats.join(', ')}`];
+  }
+
+  cancelRequested = false;
+  job = {
+    id: crypto.randomUUID(),
+    mode: mode.id,
+    outputDir,
+    formats: [...new Set(formats as ExportFormat[])],
+    startedAt: Date.now(),
+    finished: false,
+    files: files.map(sourcePath => {
+      const problem = checkBatchFile(sourcePath);
+      return {
+        sourcePath,
+        state: problem ? 'failed' : 'pending',
+        detail: '',
+        outputPaths: [],
+        error: problem ? toErrorReport(new AppError('unknown', path.basename(sourcePath), problem)) : null
+      };
+    })
+  };
+
+  console.log(`Starting batch ${job.id}: ${files.length} file(s) in mode ${mode.id}`);
+  notifyProgress();
+  runBatch(job).catch(err => console.error('Batch failed:', err));
+  return [];
+}
+
+/**
+ * Stop starting new files (files already sent to the provider still finish)
+ */
+export function cancelBatch() {
+  if (job && !job.finished) {
+    cancelRequested = true;
+  }
+}
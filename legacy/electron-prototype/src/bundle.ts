@@ -0,0 +1,90 @@
+import fs from 'fs';
+import { getSettings, updateSettings, validateSettings, SettingsPatch } from './settings';
+import { getCustomModeDefinitions, checkModeDefinitions, importCustomModes, getMode } from './modes';
+import { getDictionary, checkDictionary, importDictionary } from './dictionary';
+
+const BUNDLE_FORMAT = 'clarifyvoice-settings';
+
+// Settings that only make sense on the machine they were set on
+const MACHINE_SETTINGS = ['localModelPath', 'audioInputDevice'];
+
+/**
+ * Export settings, custom modes and the dictionary to a JSON file
+ */
+export function exportSettingsBundle(filePath: string): string | null {
+  const settings: any = getSettings();
+  for (const key of MACHINE_SETTINGS) {
+    delete settings[key];
+  }
+  const bundle = {
+    format: BUNDLE_FORMAT,
+    exportedAt: new Date().toISOString(),
+    settings,
+    modes: getCustomModeDefinitions(),
+    dictionary: getDictionary()
+  };
+
+  try {
+    fs.writeFileSync(filePath, JSON.stringify(bundle, null, 2));
+  } catch (err: any) {
+    return `Failed to write ${filePath}: ${err.message}`;
+  }
+
+  console.log('Exported settings bundle:', filePath);
+  return null;
+}
+
+/**
+ * Import a bundle written by exportSettingsBundle; returns a list of problems
+ *
+ * Everything is validated first so a bad bundle changes nothing. Modes and
+ * dictionary entries are merged into the existing ones.
+ */
+export function importSettingsBundle(filePath: string): string[] {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err: any) {
+    return [`Could not read ${filePath}: ${err.message}`];
+  }
+
+  if (bundle?.format !== BUNDLE_FORMAT) {
+    return ['File is not a ClarifyVoice settings bundle'];
+  }
+
+  const errors: string[] = [];
+  const { settings, errors: settingsErrors } = validateSettings(bundle.settings ?? {});
+  errors.push(...settingsErrors);
+  if (bundle.modes !== undefined) {
+    errors.push(...checkModeDefinitions(bundle.modes));
+  }
+  if (bundle.dictionary !== undefined) {
+    errors.push(...checkDictionary(bundle.dictionary));
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (bundle.modes !== undefined) {
+    errors.push(...importCustomModes(bundle.modes));
+  }
+  if (bundle.dictionary !== undefined) {
+    errors.push(...importDictionary(bundle.dictionary));
+  }
+
+  // Only apply what the bundle contains; keep this machine's own settings
+  const patch: SettingsPatch = {};
+  for (const key of Object.keys(bundle.settings ?? {})) {
+    if (key !== 'version' && !MACHINE_SETTINGS.includes(key)) {
+      (patch as any)[key] = (settings as any)[key];
+    }
+  }
+  if (patch.mode && !getMode(patch.mode)) {
+    errors.push(`Mode "${patch.mode}" does not exist, keeping the current mode`);
+    delete patch.mode;
+  }
+  errors.push(...updateSettings(patch));
+
+  console.log('Imported settings bundle:', filePath);
+  return errors;
+}
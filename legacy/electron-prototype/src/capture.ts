@@ -0,0 +1,130 @@
+import { desktopCapturer, nativeImage } from 'electron';
+
+export type CaptureSourceType = 'screen' | 'window' | 'region';
+
+/**
+ * Part of a screen as fractions of its width and height (0 to 1)
+ */
+export interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * What to capture for screen context, saved per mode
+ */
+export interface CaptureSource {
+  type: CaptureSourceType;
+  // desktopCapturer source id (the screen a region is drawn on)
+  id: string;
+  // Screen or window name, used to find the window again after it reopens
+  name: string;
+  // Only for regions
+  region?: CaptureRegion;
+}
+
+/**
+ * A source offered in the picker
+ */
+export interface CaptureSourceInfo {
+  id: string;
+  name: string;
+  type: 'screen' | 'window';
+  // Display the screen belongs to ('' for windows)
+  displayId: string;
+  // PNG data URL of a thumbnail, for drawing a region on
+  thumbnail: string;
+}
+
+// Thumbnail size in the picker (screens keep their aspect ratio)
+const THUMBNAIL_SIZE = { width: 480, height: 270 };
+// Quality of cropped frames re-encoded as JPEG
+const CROPPED_FRAME_QUALITY = 85;
+
+/**
+ * Check that a region lies within the screen and is not empty
+ */
+function isCaptureRegion(value: any): value is CaptureRegion {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y, width, height } = value;
+  const numbers = [x, y, width, height];
+  return numbers.every(n => typeof n === 'number' && Number.isFinite(n))
+    && x >= 0 && y >= 0 && width > 0 && height > 0
+    && x + width <= 1 && y + height <= 1;
+}
+
+/**
+ * Check a capture source from settings or the renderer
+ */
+export function isCaptureSource(value: any): value is CaptureSource {
+  if (!value || typeof value !== 'object' || typeof value.id !== 'string' || typeof value.name !== 'string') {
+    return false;
+  }
+  switch (value.type) {
+    case 'screen':
+      return value.id.startsWith('screen:') && value.region === undefined;
+    case 'window':
+      return value.id.startsWith('window:') && value.region === undefined;
+    case 'region':
+      return value.id.startsWith('screen:') && isCaptureRegion(value.region);
+    default:
+      return false;
+  }
+}
+
+/**
+ * List screens and windows that can be captured, with thumbnails
+ */
+export async function listCaptureSources(): Promise<CaptureSourceInfo[]> {
+  const sources = await desktopCapturer.getSources({
+    types: ['screen', 'window'],
+    thumbnailSize: THUMBNAIL_SIZE
+  });
+
+  return sources.map(source => ({
+    id: source.id,
+    name: source.name,
+    type: source.id.startsWith('screen:') ? 'screen' : 'window',
+    displayId: source.display_id,
+    thumbnail: source.thumbnail.toDataURL()
+  }));
+}
+
+/**
+ * Find a saved source among the current ones; null if it is gone
+ *
+ * Window ids change when an app restarts, so a window is matched by name when
+ * its id is no longer listed.
+ */
+export async function findCaptureSource(saved: CaptureSource): Promise<CaptureSource | null> {
+  const sources = await desktopCapturer.getSources({
+    types: [saved.type === 'window' ? 'window' : 'screen'],
+    thumbnailSize: { width: 0, height: 0 }
+  });
+
+  const match = sources.find(source => source.id === saved.id)
+    || (saved.type === 'window' ? sources.find(source => source.name === saved.name) : undefined);
+  return match ? { ...saved, id: match.id, name: match.name } : null;
+}
+
+/**
+ * Cut a region out of an encoded frame; null if the frame cannot be decoded
+ */
+export function cropFrame(data: Buffer, region: CaptureRegion): Buffer | null {
+  const image = nativeImage.createFromBuffer(data);
+  if (image.isEmpty()) return null;
+
+  const size = image.getSize();
+  const x = Math.min(size.width - 1, Math.round(region.x * size.width));
+  const y = Math.min(size.height - 1, Math.round(region.y * size.height));
+  const rect = {
+    x,
+    y,
+    width: Math.max(1, Math.min(size.width - x, Math.round(region.width * size.width))),
+    height: Math.max(1, Math.min(size.height - y, Math.round(region.height * size.height)))
+  };
+
+  return image.crop(rect).toJPEG(CROPPED_FRAME_QUALITY);
+}
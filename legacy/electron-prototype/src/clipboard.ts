@@ -1,71 +1,270 @@
-import { app, clipboard } from 'electron';
-import { exec } from 'child_process';
-import path from 'path';
-import fs from 'fs';
+import { clipboard, NativeImage } from 'electron';
 import os from 'os';
+import { restoreClipboardAfterPaste, clipboardRestoreDelayMs, typeOutApps } from './state';
+import { getActiveWindowInfo } from './focus';
+import { PasteStrategy, resolvePasteStrategy, getPasteStrategy, isTerminalApp } from './paste';
 
 /**
- * Paste text to the active window using platform-specific methods
+ * Saved clipboard contents
+ */
+export interface ClipboardSnapshot {
+  text: string;
+  html: string;
+  rtf: string;
+  image: NativeImage | null;
+  bookmark: { title: string; url: string } | null;
+  // Raw data of every other format (copied files, app-specific data)
+  buffers: Record<string, Buffer>;
+}
+
+// Formats covered by the text, html, rtf and image fields
+const STANDARD_FORMAT = /^(text\/(plain|html|rtf)|image\/)/i;
+
+// Clipboard restore waiting to run after a paste
+let pendingRestore: { snapshot: ClipboardSnapshot; pastedText: string; timer: NodeJS.Timeout } | null = null;
+
+/**
+ * The paste strategy to use, or an error naming what to install
+ */
+function requireStrategy(): PasteStrategy {
+  const strategy = resolvePasteStrategy();
+  if (!strategy) {
+    throw new Error('No paste strategy is available; install xdotool, wtype or ydotool');
+  }
+  return strategy;
+}
+
+/**
+ * Name of the focused app, looked up only when a decision depends on it
+ *
+ * Terminal shortcuts only differ on Linux, so elsewhere the lookup is skipped
+ * unless type-out apps are configured.
+ */
+async function getTargetAppName(): Promise<string> {
+  if (os.platform() !== 'linux' && typeOutApps.length === 0) return '';
+  const target = await getActiveWindowInfo();
+  return target ? target.app : '';
+}
+
+/**
+ * Whether the app blocks paste and needs the text typed instead
+ */
+function shouldTypeOut(appName: string): boolean {
+  const name = appName.toLowerCase();
+  return name !== '' && typeOutApps.some(entry => entry.trim() && name.includes(entry.trim().toLowerCase()));
+}
+
+/**
+ * Put text on the clipboard and send the paste shortcut
+ */
+async function pasteWithStrategy(strategy: PasteStrategy, text: string, terminal: boolean) {
+  // Use Electron's native clipboard API, plus the strategy's tool where Electron cannot reach
+  clipboard.writeText(text);
+  if (strategy.writeClipboard) {
+    await strategy.writeClipboard(text);
+  }
+  console.log('Text copied to clipboard successfully');
+
+  await strategy.sendShortcut('v', terminal);
+  console.log(`Paste command executed successfully (${strategy.id})`);
+}
+
+/**
+ * Save the current clipboard contents in every format
+ */
+export function snapshotClipboard(): ClipboardSnapshot {
+  const image = clipboard.readImage();
+  const buffers: Record<string, Buffer> = {};
+
+  for (const format of clipboard.availableFormats()) {
+    if (STANDARD_FORMAT.test(format)) continue;
+    try {
+      const buffer = clipboard.readBuffer(format);
+      if (buffer.length > 0) {
+        buffers[format] = buffer;
+      }
+    } catch (err) {
+      console.warn(`Could not read clipboard format ${format}:`, err);
+    }
+  }
+
+  // Bookmarks only exist on macOS and Windows
+  const bookmark = os.platform() === 'linux' ? null : clipboard.readBookmark();
+
+  return {
+    text: clipboard.readText(),
+    html: clipboard.readHTML(),
+    rtf: clipboard.readRTF(),
+    image: image.isEmpty() ? null : image,
+    bookmark: bookmark && bookmark.url ? bookmark : null,
+    buffers
+  };
+}
+
+/**
+ * Put saved clipboard contents back
+ *
+ * Electron writes only one raw format at a time, so other formats are restored
+ * only when nothing standard was copied (e.g. files from a file manager).
+ */
+export function restoreClipboard(snapshot: ClipboardSnapshot) {
+  const data: Electron.Data = {};
+  if (snapshot.text) data.text = snapshot.text;
+  if (snapshot.html) data.html = snapshot.html;
+  if (snapshot.rtf) data.rtf = snapshot.rtf;
+  if (snapshot.image) data.image = snapshot.image;
+  if (snapshot.bookmark) data.bookmark = snapshot.bookmark.title;
+
+  clipboard.clear();
+  if (Object.keys(data).length > 0) {
+    clipboard.write(data);
+    return;
+  }
+
+  const [format] = Object.keys(snapshot.buffers);
+  if (format) {
+    try {
+      clipboard.writeBuffer(format, snapshot.buffers[format]);
+    } catch (err) {
+      console.warn(`Could not restore clipboard format ${format}:`, err);
+    }
+  }
+}
+
+/**
+ * Cancel a scheduled restore and return its snapshot
+ *
+ * The clipboard then still holds the previous result, so a new paste or copy
+ * must keep the snapshot of what the user had before.
+ */
+function takePendingRestore(): ClipboardSnapshot | null {
+  if (!pendingRestore) return null;
+  clearTimeout(pendingRestore.timer);
+  const { snapshot } = pendingRestore;
+  pendingRestore = null;
+  return snapshot;
+}
+
+/**
+ * Restore the clipboard once the target app has read the pasted text
+ */
+function scheduleRestore(snapshot: ClipboardSnapshot, pastedText: string, delayMs: number) {
+  const timer = setTimeout(() => {
+    pendingRestore = null;
+    // Leave the clipboard alone if the user copied something in the meantime
+    if (clipboard.readText() !== pastedText) {
+      console.log('Clipboard changed since paste; not restoring');
+      return;
+    }
+    restoreClipboard(snapshot);
+    console.log('Clipboard restored');
+  }, delayMs);
+
+  pendingRestore = { snapshot, pastedText, timer };
+}
+
+/**
+ * Copy the selection in the active window and return it as text
+ *
+ * The clipboard is restored afterwards. Returns '' when nothing is selected.
+ */
+export async function copySelectedText(timeoutMs = 800): Promise<string> {
+  const snapshot = takePendingRestore() || snapshotClipboard();
+  let selection = '';
+
+  try {
+    // Clear first so an unchanged clipboard is not mistaken for a selection
+    clipboard.clear();
+    const strategy = requireStrategy();
+    await strategy.sendShortcut('c', isTerminalApp(await getTargetAppName()));
+
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      selection = clipboard.readText();
+      if (selection) break;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  } catch (err) {
+    console.error('Failed to copy selection:', err);
+  } finally {
+    restoreClipboard(snapshot);
+  }
+
+  console.log('Captured selection:', selection ? `${selection.length} characters` : '(none)');
+  return selection;
+}
+
+/**
+ * Paste text to the active window using the selected paste strategy
+ *
+ * Apps listed for type-out get the text typed key by key and the clipboard is
+ * left alone. Otherwise the previous clipboard contents are put back after a
+ * short delay unless the user chose to keep the result on the clipboard.
  */
 export async function pasteTextToActiveWindow(text: string): Promise<boolean> {
   console.log('Attempting to paste text:', text.substring(0, 100) + (text.length > 100 ? '...' : ''));
 
+  let strategy: PasteStrategy;
+  let appName: string;
   try {
-    // Use Electron's native clipboard API
+    strategy = requireStrategy();
+    appName = await getTargetAppName();
+  } catch (err) {
+    console.error('Failed to paste:', err);
     clipboard.writeText(text);
-    console.log('Text copied to clipboard successfully');
-
-    const platform = os.platform();
-
-    if (platform === 'win32') {
-      await new Promise<void>((resolve, reject) => {
-        // Use VBScript for reliable key sending on Windows
-        const vbsScript = `
-Set WshShell = CreateObject("WScript.Shell")
-WScript.Sleep 200
-WshShell.SendKeys "^v"
-`;
-        const vbsPath = path.join(app.getPath('userData'), 'paste.vbs');
-        fs.writeFileSync(vbsPath, vbsScript);
-
-        exec(`cscript //nologo "${vbsPath}"`, (err, _stdout, stderr) => {
-          if (err) {
-            console.error('Paste exec error:', err);
-            console.error('stderr:', stderr);
-            reject(err);
-          } else {
-            console.log('Paste command executed successfully');
-            resolve();
-          }
-        });
-      });
-    } else if (platform === 'darwin') {
-      await new Promise<void>((resolve, reject) => {
-        exec('osascript -e \'tell application "System Events" to keystroke "v" using command down\'', (err) => {
-          if (err) {
-            console.error('Paste failed:', err);
-            reject(err);
-          } else {
-            resolve();
-          }
-        });
-      });
-    } else if (platform === 'linux') {
-      await new Promise<void>((resolve, reject) => {
-        exec('xdotool key ctrl+v', (err) => {
-          if (err) {
-            console.error('Paste failed:', err);
-            reject(err);
-          } else {
-            resolve();
-          }
-        });
-      });
+    return false;
+  }
+
+  if (shouldTypeOut(appName)) {
+    try {
+      await strategy.typeText(text);
+      console.log(`Typed text into ${appName} (${strategy.id})`);
+      return true;
+    } catch (err) {
+      console.error('Failed to type text:', err);
+      clipboard.writeText(text);
+      return false;
     }
+  }
+
+  const pending = takePendingRestore();
+  const snapshot = restoreClipboardAfterPaste ? pending || snapshotClipboard() : null;
 
-    return true;
+  try {
+    await pasteWithStrategy(strategy, text, isTerminalApp(appName));
   } catch (err) {
+    // Leave the result on the clipboard so it can be pasted by hand
     console.error('Failed to copy/paste:', err);
     return false;
   }
+
+  if (snapshot) {
+    scheduleRestore(snapshot, text, clipboardRestoreDelayMs);
+  }
+  return true;
+}
+
+/**
+ * Deliver sample text to the focused window with one strategy
+ *
+ * Lets the user check a strategy (by paste or type-out) before selecting it.
+ */
+export async function testPasteStrategy(id: string, method: 'paste' | 'type'): Promise<void> {
+  const strategy = getPasteStrategy(id);
+  if (!strategy) {
+    throw new Error(`Unknown paste strategy: ${id}`);
+  }
+
+  const sample = `ClarifyVoice ${method} test (${strategy.label})`;
+  if (method === 'type') {
+    await strategy.typeText(sample);
+    return;
+  }
+
+  const snapshot = takePendingRestore() || snapshotClipboard();
+  try {
+    await pasteWithStrategy(strategy, sample, isTerminalApp(await getTargetAppName()));
+  } finally {
+    scheduleRestore(snapshot, sample, clipboardRestoreDelayMs);
+  }
 }
@@ -9,26 +9,98 @@ export const appRoot = app.isPackaged
   : path.join(__dirname, '..');
 
 // Load environment variables
-const envPath = app.isPackaged
+export const ENV_FILE_PATH = app.isPackaged
   ? path.join(process.resourcesPath, '.env')
   : path.join(appRoot, '.env');
 
-console.log('Looking for .env at:', envPath);
-console.log('.env exists:', fs.existsSync(envPath));
-dotenv.config({ path: envPath });
+console.log('Looking for .env at:', ENV_FILE_PATH);
+console.log('.env exists:', fs.existsSync(ENV_FILE_PATH));
+dotenv.config({ path: ENV_FILE_PATH });
 
 // Platform detection
 export const isWindows = process.platform === 'win32';
 export const isLinux = process.platform === 'linux';
 export const isMac = process.platform === 'darwin';
 
-// API Configuration
-export const API_KEY = process.env.API_KEY;
+// Provider configuration
+export const PROVIDER = process.env.PROVIDER || 'gemini';
+// Let recordings go to a cloud provider when the local model is unavailable
+export const LOCAL_CLOUD_FALLBACK = process.env.LOCAL_CLOUD_FALLBACK === 'true';
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+export const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+export const OPENAI_AUDIO_MODEL = process.env.OPENAI_AUDIO_MODEL || 'whisper-1';
+export const OPENAI_TEXT_MODEL = process.env.OPENAI_TEXT_MODEL || 'gpt-4o-mini';
+
+export const GROQ_BASE_URL = process.env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1';
+export const GROQ_AUDIO_MODEL = process.env.GROQ_AUDIO_MODEL || 'whisper-large-v3-turbo';
+export const GROQ_TEXT_MODEL = process.env.GROQ_TEXT_MODEL || 'llama-3.3-70b-versatile';
 
 // File paths
 export const AUDIO_FILE_PATH = path.join(app.getPath('userData'), 'temp_recording.wav');
 export const VIDEO_FILE_PATH = path.join(app.getPath('userData'), 'temp_recording.webm');
 
+// Local Whisper configuration (whisper.cpp CLI, CPU only)
+export const whisperDir = app.isPackaged
+  ? path.join(process.resourcesPath, 'extra', 'whisper')
+  : path.join(appRoot, 'extra', 'whisper');
+
+export const WHISPER_EXECUTABLE = process.env.WHISPER_EXECUTABLE
+  || (isWindows ? path.join(whisperDir, 'whisper-cli.exe') : 'whisper-cli');
+export const WHISPER_MODEL_PATH = process.env.WHISPER_MODEL_PATH
+  || path.join(app.getPath('userData'), 'models', 'ggml-base.bin');
+export const WHISPER_LANGUAGE = process.env.WHISPER_LANGUAGE || 'auto';
+
+// Streaming transcription (partial results while recording)
+export const STREAMING_ENABLED = process.env.STREAMING_ENABLED !== 'false';
+export const STREAMING_CHUNK_SECONDS = Number(process.env.STREAMING_CHUNK_SECONDS) || 8;
+
+// Push-to-talk (record only while the recording hotkey is held)
+export const PUSH_TO_TALK = process.env.PUSH_TO_TALK === 'true';
+export const PUSH_TO_TALK_MIN_HOLD_MS = Number(process.env.PUSH_TO_TALK_MIN_HOLD_MS) || 300;
+
+/**
+ * Read a numeric environment variable, falling back to the default for invalid values
+ *
+ * A malformed value must not silently disable a limit; only an explicit 0 does.
+ */
+function parseNumberEnv(name: string, defaultValue: number, minimum = 0): number {
+  const value = process.env[name];
+  if (value === undefined) return defaultValue;
+
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed < minimum) {
+    console.error(`Invalid ${name} "${value}" (must be a number of at least ${minimum}), using ${defaultValue}`);
+    return defaultValue;
+  }
+  return parsed;
+}
+
+// Long recordings (0 disables the limit); longer audio is sent in overlapping segments
+export const MAX_RECORDING_MINUTES = parseNumberEnv('MAX_RECORDING_MINUTES', 60);
+export const SEGMENT_OVERLAP_SECONDS = 3;
+// Each segment must reach past the overlap, or splitting makes no progress
+export const SEGMENT_SECONDS = parseNumberEnv('SEGMENT_SECONDS', 300, SEGMENT_OVERLAP_SECONDS + 1);
+
+// Batch transcription of existing files (other formats are converted with sox)
+export const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 2;
+export const BATCH_AUDIO_EXTENSIONS = ['wav', 'mp3', 'ogg', 'flac', 'm4a'];
+
+// Voice activity detection (stop after trailing silence, drop recordings without speech)
+export const VAD_AUTO_STOP = process.env.VAD_AUTO_STOP !== 'false';
+export const VAD_SILENCE_SECONDS = Number(process.env.VAD_SILENCE_SECONDS) || 5;
+export const VAD_DISCARD_SILENT = process.env.VAD_DISCARD_SILENT !== 'false';
+
+// Clipboard contents are put back this long after the paste keystroke
+export const PASTE_RESTORE_CLIPBOARD = process.env.PASTE_RESTORE_CLIPBOARD !== 'false';
+export const PASTE_RESTORE_DELAY_MS = Number(process.env.PASTE_RESTORE_DELAY_MS) || 500;
+// Key sending tool ('auto' picks one for the platform and display server)
+export const PASTE_STRATEGY = process.env.PASTE_STRATEGY || 'auto';
+
+// Transcript history retention (0 disables a limit)
+export const HISTORY_MAX_ENTRIES = Math.floor(parseNumberEnv('HISTORY_MAX_ENTRIES', 500));
+export const HISTORY_RETENTION_DAYS = parseNumberEnv('HISTORY_RETENTION_DAYS', 30);
+
 // SoX configuration
 export const soxDir = isWindows
   ? (app.isPackaged
@@ -106,9 +178,41 @@ Transcribe in the exact language spoken in the audio.
 Return ONLY the transcribed text. Do not include introductory phrases.
 `;
 
+export const REWRITE_INSTRUCTION = `
+You are an expert editor.
+The user has selected a piece of text and spoken an instruction describing how to change it.
+Apply the spoken instruction to the selected text.
+Keep the language of the selected text unless the instruction asks for another language.
+Preserve formatting such as line breaks, lists and code unless the instruction says otherwise.
+Return ONLY the rewritten text. Do not include explanations, quotes or introductory phrases.
+`;
+
+export const TRANSLATION_INSTRUCTION = `
+You are an expert translator.
+Translate the provided text into {language}.
+Preserve the meaning, tone and formatting of the original. Keep names, product names and code unchanged.
+Return ONLY the translated text. Do not include the original text, notes or introductory phrases.
+`;
+
+// Voice translation defaults
+export const TRANSLATION_TARGET_LANGUAGE = process.env.TRANSLATION_TARGET_LANGUAGE || 'English';
+export const TRANSLATION_LANGUAGES = [
+  'English',
+  'Portuguese (Brazil)',
+  'Portuguese (Portugal)',
+  'Spanish',
+  'French',
+  'German',
+  'Italian',
+  'Japanese',
+  'Chinese (Simplified)',
+  'Korean'
+];
+
 // Log configuration
 console.log('Platform:', process.platform);
 console.log('SoX Directory:', soxDir || '(system)');
-console.log('API_KEY loaded:', API_KEY ? 'Yes' : 'No');
+console.log('Provider:', PROVIDER);
 console.log('Is Packaged:', app.isPackaged);
 console.log('SoX executable:', soxExe);
+console.log('Whisper executable:', WHISPER_EXECUTABLE);
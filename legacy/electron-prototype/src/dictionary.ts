@@ -0,0 +1,313 @@
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Deterministic post-processing rule applied to every result
+ */
+export interface ReplacementRule {
+  id: string;
+  // Literal text or regular expression source
+  pattern: string;
+  replacement: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  enabled: boolean;
+}
+
+/**
+ * Vocabulary hints and replacement rules
+ */
+export interface Dictionary {
+  vocabulary: string[];
+  rules: ReplacementRule[];
+}
+
+const DICTIONARY_FILE_PATH = path.join(app.getPath('userData'), 'dictionary.json');
+
+// Keep the hint short enough not to crowd out the real instruction
+const MAX_VOCABULARY_HINTS = 200;
+
+let dictionary: Dictionary | null = null;
+
+/**
+ * Load the dictionary from disk on first use
+ */
+function loadDictionary(): Dictionary {
+  if (dictionary) return dictionary;
+
+  dictionary = { vocabulary: [], rules: [] };
+  try {
+    if (fs.existsSync(DICTIONARY_FILE_PATH)) {
+      const data = JSON.parse(fs.readFileSync(DICTIONARY_FILE_PATH, 'utf-8'));
+      if (Array.isArray(data.vocabulary)) {
+        dictionary.vocabulary = data.vocabulary.filter((term: any) => typeof term === 'string' && term.trim());
+      }
+      if (Array.isArray(data.rules)) {
+        for (const raw of data.rules) {
+          const rule = validateRule(raw);
+          if (typeof rule === 'string') {
+            console.error('Skipping invalid replacement rule:', rule);
+          } else {
+            dictionary.rules.push(rule);
+          }
+        }
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load dictionary, starting empty:', err);
+  }
+  return dictionary;
+}
+
+/**
+ * Write the dictionary to disk atomically
+ */
+function saveDictionary() {
+  if (!dictionary) return;
+  try {
+    const tempPath = `${DICTIONARY_FILE_PATH}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(dictionary, null, 2));
+    fs.renameSync(tempPath, DICTIONARY_FILE_PATH);
+  } catch (err) {
+    console.error('Failed to save dictionary:', err);
+  }
+}
+
+/**
+ * Escape a literal string for use in a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a rule into a global RegExp
+ */
+function compileRule(rule: Pick<ReplacementRule, 'pattern' | 'isRegex' | 'caseSensitive' | 'wholeWord'>): RegExp {
+  let source = rule.isRegex ? rule.pattern : escapeRegExp(rule.pattern);
+  if (rule.wholeWord) {
+    // Unicode-aware word boundaries so accented letters count as word characters
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+  return new RegExp(source, rule.caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Validate a raw rule; returns the rule or an error message
+ */
+function validateRule(raw: any): ReplacementRule | string {
+  if (!raw || typeof raw !== 'object') {
+    return 'Rule must be an object';
+  }
+  if (typeof raw.pattern !== 'string' || !raw.pattern) {
+    return 'Rule "pattern" is required';
+  }
+  if (typeof raw.replacement !== 'string') {
+    return 'Rule "replacement" must be a string';
+  }
+
+  const rule: ReplacementRule = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    pattern: raw.pattern,
+    replacement: raw.replacement,
+    isRegex: Boolean(raw.isRegex),
+    caseSensitive: Boolean(raw.caseSensitive),
+    wholeWord: raw.wholeWord !== false,
+    enabled: raw.enabled !== false
+  };
+
+  try {
+    const regex = compileRule(rule);
+    if (regex.test('')) {
+      return `Pattern "${rule.pattern}" matches empty text`;
+    }
+  } catch (err: any) {
+    return `Invalid regular expression "${rule.pattern}": ${err.message}`;
+  }
+
+  return rule;
+}
+
+/**
+ * Get a copy of the dictionary
+ */
+export function getDictionary(): Dictionary {
+  const current = loadDictionary();
+  return {
+    vocabulary: [...current.vocabulary],
+    rules: current.rules.map(rule => ({ ...rule }))
+  };
+}
+
+/**
+ * Add a vocabulary term (duplicates are ignored, case-insensitively)
+ */
+export function addVocabularyTerm(term: string): boolean {
+  const trimmed = typeof term === 'string' ? term.trim() : '';
+  if (!trimmed) return false;
+
+  const current = loadDictionary();
+  if (current.vocabulary.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) {
+    return false;
+  }
+
+  current.vocabulary.push(trimmed);
+  saveDictionary();
+  return true;
+}
+
+/**
+ * Remove a vocabulary term
+ */
+export function removeVocabularyTerm(term: string): boolean {
+  const current = loadDictionary();
+  const index = current.vocabulary.indexOf(term);
+  if (index === -1) return false;
+
+  current.vocabulary.splice(index, 1);
+  saveDictionary();
+  return true;
+}
+
+/**
+ * Add a replacement rule; returns the saved rule or an error message
+ */
+export function addReplacementRule(raw: any): ReplacementRule | string {
+  const rule = validateRule({ ...raw, id: undefined });
+  if (typeof rule === 'string') return rule;
+
+  loadDictionary().rules.push(rule);
+  saveDictionary();
+  return rule;
+}
+
+/**
+ * Update an existing rule; returns the updated rule or an error message
+ */
+export function updateReplacementRule(id: string, changes: any): ReplacementRule | string {
+  const current = loadDictionary();
+  const index = current.rules.findIndex(rule => rule.id === id);
+  if (index === -1) return `Rule not found: ${id}`;
+
+  const rule = validateRule({ ...current.rules[index], ...changes, id });
+  if (typeof rule === 'string') return rule;
+
+  current.rules[index] = rule;
+  saveDictionary();
+  return rule;
+}
+
+/**
+ * Remove a replacement rule
+ */
+export function removeReplacementRule(id: string): boolean {
+  const current = loadDictionary();
+  const index = current.rules.findIndex(rule => rule.id === id);
+  if (index === -1) return false;
+
+  current.rules.splice(index, 1);
+  saveDictionary();
+  return true;
+}
+
+/**
+ * Check a raw dictionary without loading it
+ */
+export function checkDictionary(raw: any): string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['Dictionary must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (raw.vocabulary !== undefined && (!Array.isArray(raw.vocabulary)
+    || raw.vocabulary.some((term: any) => typeof term !== 'string'))) {
+    errors.push('Dictionary "vocabulary" must be an array of strings');
+  }
+  if (raw.rules !== undefined) {
+    if (!Array.isArray(raw.rules)) {
+      errors.push('Dictionary "rules" must be an array');
+    } else {
+      for (const rule of raw.rules) {
+        const result = validateRule(rule);
+        if (typeof result === 'string') errors.push(result);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Merge vocabulary and rules into the dictionary (same rule id replaces)
+ *
+ * Nothing is changed if any entry is invalid.
+ */
+export function importDictionary(raw: any): string[] {
+  const errors = checkDictionary(raw);
+  if (errors.length > 0) return errors;
+
+  const current = loadDictionary();
+  for (const term of raw.vocabulary || []) {
+    const trimmed = term.trim();
+    if (trimmed && !current.vocabulary.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) {
+      current.vocabulary.push(trimmed);
+    }
+  }
+  for (const rawRule of raw.rules || []) {
+    const rule = validateRule(rawRule) as ReplacementRule;
+    const index = current.rules.findIndex(existing => existing.id === rule.id);
+    if (index === -1) {
+      current.rules.push(rule);
+    } else {
+      current.rules[index] = rule;
+    }
+  }
+
+  saveDictionary();
+  return [];
+}
+
+/**
+ * Append vocabulary spelling hints to a system instruction
+ */
+export function withVocabularyHints(instruction: string): string {
+  const terms = loadDictionary().vocabulary.slice(0, MAX_VOCABULARY_HINTS);
+  if (terms.length === 0) return instruction;
+
+  return `${instruction}
+VOCABULARY:
+The following names and terms may appear in the audio. When you hear them, spell them exactly as written here:
+${terms.map(term => `- ${term}`).join('\n')}
+`;
+}
+
+/**
+ * Apply enabled replacement rules to a result, in order
+ */
+export function applyReplacements(text: string): string {
+  let result = text;
+
+  for (const rule of loadDictionary().rules) {
+    if (!rule.enabled) continue;
+    try {
+      const regex = compileRule(rule);
+      result = rule.isRegex
+        ? result.replace(regex, rule.replacement)
+        // Literal replacements must not interpret "$" patterns
+        : result.replace(regex, () => rule.replacement);
+    } catch (err) {
+      console.error(`Replacement rule ${rule.id} failed:`, err);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply replacement rules to each segment of a timed transcript
+ */
+export function applySegmentReplacements<T extends { text: string }>(segments: T[]): T[] {
+  return segments.map(segment => ({ ...segment, text: applyReplacements(segment.text) }));
+}
@@ -0,0 +1,164 @@
+/**
+ * Kinds of failure the user can act on
+ */
+export type ErrorCode =
+  | 'missing-key'
+  | 'auth'
+  | 'rate-limit'
+  | 'network'
+  | 'server'
+  | 'payload-too-large'
+  | 'empty-response'
+  | 'sox'
+  | 'unknown';
+
+// Failures worth retrying after a pause
+const TRANSIENT_CODES: ErrorCode[] = ['rate-limit', 'network', 'server'];
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 15000;
+// Longer server-requested waits (e.g. a daily quota) are reported instead
+const RETRY_AFTER_LIMIT_MS = 60000;
+
+/**
+ * Error with a code and a message meant for the user
+ */
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  // Service or component that failed, e.g. "Google Gemini" or "SoX"
+  readonly source: string;
+  readonly detail: string;
+  // Server-requested wait before retrying (Retry-After)
+  readonly retryAfterMs?: number;
+
+  constructor(code: ErrorCode, source: string, detail?: string, retryAfterMs?: number) {
+    super(detail ? `${source}: ${detail}` : source);
+    this.name = 'AppError';
+    this.code = code;
+    this.source = source;
+    this.detail = detail || '';
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_CODES.includes(this.code);
+  }
+}
+
+/**
+ * Error details sent to the renderer
+ */
+export interface ErrorReport {
+  code: ErrorCode;
+  message: string;
+  detail: string;
+}
+
+/**
+ * Actionable message for an error
+ */
+export function describeError(error: AppError): string {
+  switch (error.code) {
+    case 'missing-key':
+      return `${error.source} is not set up. Add its API key or model in settings, or choose another provider.`;
+    case 'auth':
+      return `${error.source} rejected the API key. Check or replace it in settings.`;
+    case 'rate-limit':
+      return `${error.source} rate limit or quota reached. Wait a minute or check your plan.`;
+    case 'network':
+      return `Could not reach ${error.source}. Check your internet connection.`;
+    case 'server':
+      return `${error.source} is having problems. Try again in a few minutes.`;
+    case 'payload-too-large':
+      return `The recording is too large for ${error.source}. Try a shorter recording.`;
+    case 'empty-response':
+      return `${error.source} returned no text. Speak closer to the microphone and try again.`;
+    case 'sox':
+      return 'Audio recording failed. Check that SoX is installed and the microphone is connected.';
+    default:
+      return `${error.source} failed${error.detail ? `: ${error.detail}` : ''}.`;
+  }
+}
+
+/**
+ * Build the report sent to the renderer
+ */
+export function toErrorReport(error: AppError): ErrorReport {
+  return { code: error.code, message: describeError(error), detail: error.message };
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Map an HTTP status to an error
+ */
+export function errorFromStatus(source: string, status: number, body = '', retryAfter?: string | null): AppError {
+  const detail = `HTTP ${status}${body ? ` ${body.substring(0, 300)}` : ''}`;
+
+  if (status === 401 || status === 403) return new AppError('auth', source, detail);
+  if (status === 413) return new AppError('payload-too-large', source, detail);
+  if (status === 429) return new AppError('rate-limit', source, detail, parseRetryAfter(retryAfter));
+  if (status === 408 || status >= 500) return new AppError('server', source, detail);
+  // Gemini reports an invalid key as 400 INVALID_ARGUMENT
+  if (status === 400 && /API key/i.test(body)) return new AppError('auth', source, detail);
+  return new AppError('unknown', source, detail);
+}
+
+/**
+ * Turn any thrown value into an AppError
+ */
+export function toAppError(error: any, source: string): AppError {
+  if (error instanceof AppError) return error;
+
+  // SDK errors carry the HTTP status (e.g. @google/genai ApiError)
+  const status = Number(error?.status ?? error?.code);
+  if (Number.isInteger(status) && status >= 400 && status < 600) {
+    return errorFromStatus(source, status, String(error.message || ''));
+  }
+
+  const networkCodes = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT'];
+  const cause = error?.cause;
+  if (networkCodes.includes(error?.code) || networkCodes.includes(cause?.code)
+    || (error instanceof TypeError && /fetch failed/i.test(error.message))) {
+    return new AppError('network', source, cause?.message || error.message);
+  }
+
+  return new AppError('unknown', source, error?.message || String(error));
+}
+
+/**
+ * Run a request, retrying transient failures with exponential backoff
+ */
+export async function withRetry<T>(
+  source: string,
+  request: () => Promise<T>,
+  onRetry?: (attempt: number, delayMs: number, error: AppError) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      const error = toAppError(err, source);
+      if (!error.transient || attempt >= RETRY_ATTEMPTS || (error.retryAfterMs ?? 0) > RETRY_AFTER_LIMIT_MS) {
+        throw error;
+      }
+
+      // Jitter keeps parallel requests from retrying in lockstep
+      const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      const delayMs = Math.max(error.retryAfterMs ?? 0, Math.round(backoff / 2 + Math.random() * backoff / 2));
+      console.warn(`${error.message}; retrying in ${delayMs}ms (attempt ${attempt + 1} of ${RETRY_ATTEMPTS})`);
+      onRetry?.(attempt, delayMs, error);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { exec } from 'child_process';
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+/**
+ * Identity of the window that had keyboard focus
+ */
+export interface ActiveWindowInfo {
+  // Platform window handle (HWND on Windows, X11 window id on Linux, process id on macOS)
+  id: string;
+  // Process or application name
+  app: string;
+  title: string;
+}
+
+/**
+ * Run a command and resolve with trimmed stdout ('' on failure)
+ */
+function run(command: string, timeout = 3000): Promise<string> {
+  return new Promise((resolve) => {
+    exec(command, { timeout, windowsHide: true }, (err, stdout) => {
+      resolve(err ? '' : stdout.trim());
+    });
+  });
+}
+
+/**
+ * Get the foreground window on Windows
+ */
+async function getWindowsActiveWindow(): Promise<ActiveWindowInfo | null> {
+  const psScript = `
+Add-Type @"
+using System;
+using System.Text;
+using System.Runtime.InteropServices;
+public class ForegroundWindow {
+    [DllImport("user32.dll")]
+    public static extern IntPtr GetForegroundWindow();
+    [DllImport("user32.dll", CharSet = CharSet.Unicode)]
+    public static extern int GetWindowText(IntPtr hWnd, StringBuilder text, int count);
+    [DllImport("user32.dll")]
+    public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint processId);
+}
+"@
+$hwnd = [ForegroundWindow]::GetForegroundWindow()
+$title = New-Object System.Text.StringBuilder 512
+[void][ForegroundWindow]::GetWindowText($hwnd, $title, 512)
+$processId = 0
+[void][ForegroundWindow]::GetWindowThreadProcessId($hwnd, [ref]$processId)
+$name = (Get-Process -Id $processId -ErrorAction SilentlyContinue).ProcessName
+Write-Output "$hwnd|$name|$($title.ToString())"
+`;
+
+  const psPath = path.join(app.getPath('userData'), 'active_window.ps1');
+  fs.writeFileSync(psPath, psScript);
+
+  const output = await run(`powershell -ExecutionPolicy Bypass -File "${psPath}"`, 5000);
+  const [id, name, ...titleParts] = output.split('|');
+  if (!id || id === '0') return null;
+
+  return { id, app: name || '', title: titleParts.join('|') };
+}
+
+/**
+ * Get the frontmost application on macOS
+ */
+async function getMacActiveWindow(): Promise<ActiveWindowInfo | null> {
+  // Prints "<unix id>|<name>"
+  const output = await run(
+    'osascript -e \'tell application "System Events" to tell (first application process whose frontmost is true) to return (unix id as text) & "|" & name\''
+  );
+  const [pid, ...nameParts] = output.split('|');
+  if (!pid || !/^\d+$/.test(pid)) return null;
+
+  const title = await run(
+    `osascript -e 'tell application "System Events" to tell (first process whose unix id is ${pid}) to get name of front window'`
+  );
+
+  // macOS exposes no stable window handle to scripts, and titles change as apps
+  // work (loading tabs, unsaved marks), so the process identifies the window
+  return { id: pid, app: nameParts.join('|'), title };
+}
+
+/**
+ * Get the active X11 window on Linux using xdotool
+ */
+async function getLinuxActiveWindow(): Promise<ActiveWindowInfo | null> {
+  const id = await run('xdotool getactivewindow');
+  if (!id) return null;
+
+  const title = await run(`xdotool getwindowname ${id}`);
+  const pid = await run(`xdotool getwindowpid ${id}`);
+  const name = pid ? await run(`ps -p ${pid} -o comm=`) : '';
+
+  return { id, app: name, title };
+}
+
+/**
+ * Get the window that currently has keyboard focus (null if unknown)
+ */
+export async function getActiveWindowInfo(): Promise<ActiveWindowInfo | null> {
+  const platform = os.platform();
+
+  try {
+    if (platform === 'win32') {
+      return await getWindowsActiveWindow();
+    } else if (platform === 'darwin') {
+      return await getMacActiveWindow();
+    } else if (platform === 'linux') {
+      return await getLinuxActiveWindow();
+    }
+  } catch (err) {
+    console.error('Failed to read active window:', err);
+  }
+  return null;
+}
+
+/**
+ * Check whether focus has visibly moved away from a window
+ *
+ * Returns false when either identity is unknown (e.g. no xdotool on Wayland),
+ * since a change cannot be detected there.
+ */
+export function hasFocusChanged(target: ActiveWindowInfo | null, current: ActiveWindowInfo | null): boolean {
+  return Boolean(target && current && target.id !== current.id);
+}
+
+/**
+ * Short name of a window for messages
+ */
+export function describeWindow(window: ActiveWindowInfo | null): string {
+  if (!window) return 'another window';
+  return window.app || window.title || 'another window';
+}
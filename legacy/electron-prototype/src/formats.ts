@@ -0,0 +1,202 @@
+import { TranscriptSegment } from './providers';
+
+export type ExportFormat = 'txt' | 'srt' | 'vtt' | 'md' | 'json';
+
+/**
+ * Export formats offered in save dialogs (id doubles as the file extension)
+ */
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; name: string }> = [
+  { id: 'txt', name: 'Plain Text' },
+  { id: 'srt', name: 'SubRip Subtitles' },
+  { id: 'vtt', name: 'WebVTT Subtitles' },
+  { id: 'md', name: 'Markdown' },
+  { id: 'json', name: 'JSON' }
+];
+
+/**
+ * A transcript with the details written alongside it
+ */
+export interface TranscriptDocument {
+  title: string;
+  createdAt: number;
+  mode: string;
+  provider: string;
+  // Audio length in seconds
+  duration: number;
+  // Final result (rewritten or translated)
+  text: string;
+  // Verbatim transcript when one was produced separately
+  rawText: string;
+  segments: TranscriptSegment[];
+  sourcePath?: string;
+}
+
+// Subtitle cues are split to about two lines of 42 characters
+const MAX_CUE_CHARS = 84;
+const MAX_CUE_SECONDS = 7;
+
+/**
+ * Check an export format id from the renderer
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.some(format => format.id === value);
+}
+
+/**
+ * Segments to export; without timing the whole transcript is one segment
+ */
+function transcriptSegments(doc: TranscriptDocument): TranscriptSegment[] {
+  if (doc.segments.length > 0) return doc.segments;
+  const text = doc.rawText || doc.text;
+  return text ? [{ start: 0, end: doc.duration, text }] : [];
+}
+
+/**
+ * Split a long segment into subtitle-sized cues
+ *
+ * Providers give no word timings, so time is shared out by text length.
+ */
+function splitCue(segment: TranscriptSegment): TranscriptSegment[] {
+  const length = Math.max(0, segment.end - segment.start);
+  if (segment.text.length <= MAX_CUE_CHARS && length <= MAX_CUE_SECONDS) {
+    return [segment];
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of segment.text.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + word.length > MAX_CUE_CHARS) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+    // Prefer to end a cue with a sentence
+    if (/[.!?]$/.test(word) && current.length >= MAX_CUE_CHARS / 2) {
+      pieces.push(current);
+      current = '';
+    }
+  }
+  if (current) pieces.push(current);
+
+  const totalChars = pieces.reduce((sum, piece) => sum + piece.length, 0);
+  let start = segment.start;
+  return pieces.map(piece => {
+    const end = start + length * piece.length / totalChars;
+    const cue = { start, end, text: piece };
+    start = end;
+    return cue;
+  });
+}
+
+/**
+ * Format seconds as HH:MM:SS plus milliseconds after the given separator
+ */
+function formatTimestamp(seconds: number, separator: string): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+/**
+ * Format seconds as M:SS (or H:MM:SS) for reading
+ */
+function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor(total / 60) % 60;
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * SubRip: numbered cues with comma-separated milliseconds
+ */
+function toSrt(doc: TranscriptDocument): string {
+  return transcriptSegments(doc)
+    .flatMap(splitCue)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+/**
+ * WebVTT: header, then cues with dot-separated milliseconds
+ */
+function toVtt(doc: TranscriptDocument): string {
+  const cues = transcriptSegments(doc)
+    .flatMap(splitCue)
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * Markdown: details, the result and the timed transcript
+ */
+function toMarkdown(doc: TranscriptDocument): string {
+  const lines = [
+    `# ${doc.title}`,
+    '',
+    `- **Date:** ${new Date(doc.createdAt).toLocaleString()}`,
+    `- **Mode:** ${doc.mode}`,
+    `- **Provider:** ${doc.provider}`,
+    `- **Duration:** ${formatClock(doc.duration)}`
+  ];
+  if (doc.sourcePath) {
+    lines.push(`- **Source:** ${doc.sourcePath}`);
+  }
+
+  // The result only differs from the transcript when it was rewritten or translated
+  if (doc.rawText && doc.rawText !== doc.text) {
+    lines.push('', '## Result', '', doc.text);
+  }
+
+  lines.push('', '## Transcript', '');
+  for (const segment of transcriptSegments(doc)) {
+    lines.push(`**[${formatClock(segment.start)}]** ${segment.text}`, '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * JSON: every field, with times rounded to milliseconds
+ */
+function toJson(doc: TranscriptDocument): string {
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+  return JSON.stringify({
+    title: doc.title,
+    createdAt: new Date(doc.createdAt).toISOString(),
+    mode: doc.mode,
+    provider: doc.provider,
+    duration: round(doc.duration),
+    sourcePath: doc.sourcePath,
+    text: doc.text,
+    rawText: doc.rawText,
+    segments: transcriptSegments(doc).map(segment => ({
+      start: round(segment.start),
+      end: round(segment.end),
+      text: segment.text
+    }))
+  }, null, 2);
+}
+
+/**
+ * Render a transcript in an export format
+ */
+export function formatTranscript(doc: TranscriptDocument, format: ExportFormat): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(doc);
+    case 'vtt':
+      return toVtt(doc);
+    case 'md':
+      return toMarkdown(doc);
+    case 'json':
+      return toJson(doc);
+    default:
+      return doc.text;
+  }
+}
@@ -0,0 +1,134 @@
+import { nativeImage } from 'electron';
+
+/**
+ * A screen frame captured while recording
+ */
+export interface VideoFrame {
+  // Encoded image (JPEG from the renderer)
+  data: Buffer;
+  // Capture time in milliseconds
+  timestamp: number;
+  // Difference hash of the frame (64 bits)
+  hash: Uint8Array;
+  // Bits that differ from the previous kept frame (HASH_BITS for the first)
+  change: number;
+}
+
+// dHash compares neighbouring pixels of a 9x8 grayscale thumbnail
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+// Frames this close to the previous kept frame are dropped (cursor moves, blinking caret)
+const DUPLICATE_DISTANCE = 4;
+
+/**
+ * Read frame or file data sent over IPC
+ *
+ * Binary data arrives as a Uint8Array or ArrayBuffer; base64 strings (with or
+ * without a data URL prefix) are still accepted from older renderers.
+ */
+export function toBinaryData(data: unknown): Buffer | null {
+  if (Buffer.isBuffer(data)) return data;
+  if (data instanceof Uint8Array) return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (data instanceof ArrayBuffer) return Buffer.from(data);
+  if (typeof data === 'string' && data) {
+    return Buffer.from(data.replace(/^data:[^,]*,/, ''), 'base64');
+  }
+  return null;
+}
+
+/**
+ * Difference hash of an image, or null if it cannot be decoded
+ *
+ * Each bit records whether a pixel is brighter than its right neighbour, so the
+ * hash survives recompression and small shifts but changes with the content.
+ */
+function differenceHash(data: Buffer): Uint8Array | null {
+  const image = nativeImage.createFromBuffer(data);
+  if (image.isEmpty()) return null;
+
+  // BGRA pixels, row by row
+  const bitmap = image.resize({ width: HASH_WIDTH, height: HASH_HEIGHT, quality: 'good' }).toBitmap();
+  if (bitmap.length < HASH_WIDTH * HASH_HEIGHT * 4) return null;
+
+  const gray = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.114 * bitmap[i * 4] + 0.587 * bitmap[i * 4 + 1] + 0.299 * bitmap[i * 4 + 2];
+  }
+
+  const hash = new Uint8Array(HASH_BITS / 8);
+  let bit = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      if (gray[y * HASH_WIDTH + x] > gray[y * HASH_WIDTH + x + 1]) {
+        hash[bit >> 3] |= 1 << (bit & 7);
+      }
+      bit++;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = a[i] ^ b[i];
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Build a frame from IPC data, scoring how much it changed since the previous one
+ *
+ * Returns null when the data is not a readable image.
+ */
+export function toVideoFrame(frameData: unknown, previous: VideoFrame | null, timestamp = Date.now()): VideoFrame | null {
+  const data = toBinaryData(frameData);
+  if (!data || data.length === 0) return null;
+
+  const hash = differenceHash(data);
+  if (!hash) return null;
+
+  return {
+    data,
+    timestamp,
+    hash,
+    change: previous ? hammingDistance(previous.hash, hash) : HASH_BITS
+  };
+}
+
+/**
+ * Whether a frame shows the same screen as the previous kept frame
+ */
+export function isNearDuplicate(frame: VideoFrame): boolean {
+  return frame.change <= DUPLICATE_DISTANCE;
+}
+
+/**
+ * Pick the frames where the screen changed most, in capture order
+ *
+ * The first frame is always kept as the starting context; the rest are the
+ * largest scene changes, so a long static stretch costs no extra frames.
+ */
+export function selectKeyframes(frames: VideoFrame[], maxFrames: number): VideoFrame[] {
+  if (frames.length <= maxFrames) return frames;
+  if (maxFrames <= 0) return [];
+
+  const [first, ...rest] = frames;
+  const changes = rest
+    .map((frame, i) => ({ frame, index: i + 1 }))
+    .sort((a, b) => b.frame.change - a.frame.change || a.index - b.index)
+    .slice(0, maxFrames - 1)
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.frame);
+
+  return [first, ...changes];
+}
@@ -1,148 +1,202 @@
 import fs from 'fs';
-import { ai, currentMode } from './state';
-import {
-  SYSTEM_INSTRUCTION,
-  VIDEO_SYSTEM_INSTRUCTION,
-  TRANSCRIPTION_INSTRUCTION
-} from './config';
+import { GoogleGenAI } from '@google/genai';
+import { GEMINI_MODEL, TRANSCRIPTION_INSTRUCTION } from './config';
+import { TranscriptionProvider, RefineRequest, GenerateRequest } from './providers';
+import { withVocabularyHints } from './dictionary';
+import { getApiKey } from './secrets';
+import { AppError, toAppError } from './errors';
+import { VideoFrame, selectKeyframes } from './frames';
 
-/**
- * Process audio with Gemini AI
- */
-export async function processAudioWithGemini(
-  filePath: string,
-  videoFrames: string[] = []
-): Promise<string> {
-  if (!ai) return '';
+const GEMINI_LABEL = 'Google Gemini';
 
-  const hasVideo = videoFrames.length > 0;
+// Frames sent with audio, and alongside a full video where they only add detail
+const MAX_AUDIO_KEYFRAMES = 10;
+const MAX_VIDEO_KEYFRAMES = 5;
 
-  const instruction = currentMode === 'transcription'
-    ? TRANSCRIPTION_INSTRUCTION
-    : (hasVideo ? VIDEO_SYSTEM_INSTRUCTION : SYSTEM_INSTRUCTION);
+const GEMINI_MODELS_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
 
-  const userPrompt = currentMode === 'transcription'
-    ? 'Transcribe this audio.'
-    : hasVideo
-      ? 'Analyze the provided screen recording frames along with the audio. Use the visual context to better understand what I\'m discussing and create a well-structured, clear prompt. The frames show what was on my screen while I was speaking.'
-      : 'Transcribe and rewrite this audio for better clarity and organization.';
+// Lazily created Gemini client and the key it was created with
+let ai: GoogleGenAI | null = null;
+let aiKey = '';
 
-  try {
-    const audioBuffer = fs.readFileSync(filePath);
-    const base64Data = audioBuffer.toString('base64');
-
-    const parts: any[] = [];
-
-    // Add video frames (sample every few frames to reduce payload size)
-    if (hasVideo) {
-      const sampleRate = Math.max(1, Math.floor(videoFrames.length / 10));
-      for (let i = 0; i < videoFrames.length; i += sampleRate) {
-        parts.push({
-          inlineData: {
-            mimeType: 'image/jpeg',
-            data: videoFrames[i]
-          }
-        });
-      }
-      console.log(`Sending ${Math.ceil(videoFrames.length / sampleRate)} video frames to Gemini`);
-    }
+/**
+ * Get the Gemini client (null when no API key is configured)
+ */
+function getClient(): GoogleGenAI | null {
+  const apiKey = getApiKey('gemini');
+  if (!apiKey) return null;
+  // Recreate the client when the key is replaced
+  if (!ai || aiKey !== apiKey) {
+    ai = new GoogleGenAI({ apiKey });
+    aiKey = apiKey;
+  }
+  return ai;
+}
 
-    // Add audio
-    parts.push({
-      inlineData: {
-        mimeType: 'audio/wav',
-        data: base64Data
-      }
+/**
+ * Check a key by listing models; returns an error message or null
+ */
+async function validateGeminiKey(apiKey: string): Promise<string | null> {
+  try {
+    const response = await fetch(`${GEMINI_MODELS_URL}?pageSize=1`, {
+      headers: { 'x-goog-api-key': apiKey }
     });
+    if (response.ok) return null;
+    if ([400, 401, 403].includes(response.status)) {
+      return 'Gemini rejected the API key';
+    }
+    return `Gemini returned HTTP ${response.status}`;
+  } catch (error: any) {
+    return `Could not reach Gemini: ${error.message}`;
+  }
+}
 
-    // Add text prompt
-    parts.push({ text: userPrompt });
+/**
+ * Send content parts to Gemini and return the response text
+ */
+async function generateContent(
+  parts: any[],
+  instruction: string,
+  temperature = 0.3,
+  model = GEMINI_MODEL
+): Promise<string> {
+  const client = getClient();
+  if (!client) {
+    throw new AppError('missing-key', GEMINI_LABEL, 'No API key set');
+  }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+  try {
+    const response = await client.models.generateContent({
+      model,
       contents: { parts },
       config: {
         systemInstruction: instruction,
-        temperature: 0.3,
+        temperature,
       }
     });
 
     return response.text || '';
   } catch (error) {
     console.error('Gemini API Error:', error);
-    return '';
+    throw toAppError(error, GEMINI_LABEL);
   }
 }
 
 /**
- * Process video with Gemini AI
+ * Inline request part for a captured frame
  */
-export async function processVideoWithGemini(
-  videoPath: string,
-  audioPath: string = '',
-  videoFrames: string[] = []
-): Promise<string> {
-  if (!ai) return '';
+function frameToPart(frame: VideoFrame) {
+  return {
+    inlineData: {
+      mimeType: 'image/jpeg',
+      data: frame.data.toString('base64')
+    }
+  };
+}
 
-  const instruction = VIDEO_SYSTEM_INSTRUCTION;
-  const userPrompt = audioPath
-    ? 'Analyze the provided screen recording along with the spoken audio. Use the visual context from the video to better understand what I\'m discussing and create a well-structured, clear prompt. The video shows what was on my screen while I was speaking.'
-    : 'Analyze the provided video recording. Create a well-structured, clear prompt based on the visual context shown on the screen.';
+/**
+ * Process audio with Gemini AI
+ */
+async function processAudioWithGemini(request: GenerateRequest): Promise<string> {
+  const { audioPath = '', videoFrames = [] } = request.media;
 
-  try {
-    const parts: any[] = [];
-
-    // Add video file
-    if (videoPath && fs.existsSync(videoPath)) {
-      const videoBuffer = fs.readFileSync(videoPath);
-      parts.push({
-        inlineData: {
-          mimeType: 'video/webm',
-          data: videoBuffer.toString('base64')
-        }
-      });
-    }
+  const audioBuffer = fs.readFileSync(audioPath);
+  const base64Data = audioBuffer.toString('base64');
 
-    // Add audio file
-    if (audioPath && fs.existsSync(audioPath)) {
-      const audioBuffer = fs.readFileSync(audioPath);
-      parts.push({
-        inlineData: {
-          mimeType: 'audio/wav',
-          data: audioBuffer.toString('base64')
-        }
-      });
-    }
+  const parts: any[] = [];
 
-    // Add extracted frames for better analysis
-    if (videoFrames.length > 0) {
-      const sampleRate = Math.max(1, Math.floor(videoFrames.length / 5));
-      for (let i = 0; i < Math.min(videoFrames.length, 5); i += sampleRate) {
-        parts.push({
-          inlineData: {
-            mimeType: 'image/jpeg',
-            data: videoFrames[i]
-          }
-        });
-      }
-      console.log(`Also sending ${Math.min(5, Math.ceil(videoFrames.length / sampleRate))} extracted frames`);
+  // Add the frames where the screen changed most (limits payload size)
+  if (videoFrames.length > 0) {
+    const keyframes = selectKeyframes(videoFrames, MAX_AUDIO_KEYFRAMES);
+    parts.push(...keyframes.map(frameToPart));
+    console.log(`Sending ${keyframes.length} of ${videoFrames.length} video frames to Gemini`);
+  }
+
+  // Add audio
+  parts.push({
+    inlineData: {
+      mimeType: 'audio/wav',
+      data: base64Data
     }
+  });
 
-    // Add text prompt
-    parts.push({ text: userPrompt });
+  // Add text prompt
+  parts.push({ text: request.prompt });
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts },
-      config: {
-        systemInstruction: instruction,
-        temperature: 0.3,
+  return generateContent(parts, request.instruction, request.temperature, request.model);
+}
+
+/**
+ * Process video with Gemini AI
+ */
+async function processVideoWithGemini(request: GenerateRequest): Promise<string> {
+  const { videoPath = '', audioPath = '', videoFrames = [] } = request.media;
+
+  const parts: any[] = [];
+
+  // Add video file
+  if (videoPath && fs.existsSync(videoPath)) {
+    const videoBuffer = fs.readFileSync(videoPath);
+    parts.push({
+      inlineData: {
+        mimeType: 'video/webm',
+        data: videoBuffer.toString('base64')
       }
     });
+  }
 
-    return response.text || '';
-  } catch (error) {
-    console.error('Gemini Video API Error:', error);
-    return '';
+  // Add audio file
+  if (audioPath && fs.existsSync(audioPath)) {
+    const audioBuffer = fs.readFileSync(audioPath);
+    parts.push({
+      inlineData: {
+        mimeType: 'audio/wav',
+        data: audioBuffer.toString('base64')
+      }
+    });
   }
+
+  // Add keyframes for better analysis
+  if (videoFrames.length > 0) {
+    const keyframes = selectKeyframes(videoFrames, MAX_VIDEO_KEYFRAMES);
+    parts.push(...keyframes.map(frameToPart));
+    console.log(`Also sending ${keyframes.length} keyframes`);
+  }
+
+  // Add text prompt
+  parts.push({ text: request.prompt });
+
+  return generateContent(parts, request.instruction, request.temperature, request.model);
+}
+
+/**
+ * Create the Gemini provider
+ */
+export function createGeminiProvider(): TranscriptionProvider {
+  return {
+    id: 'gemini',
+    label: GEMINI_LABEL,
+    capabilities: { transcribe: true, refine: true, multimodal: true, timestamps: false },
+
+    isConfigured: () => Boolean(getApiKey('gemini')),
+
+    validateApiKey: validateGeminiKey,
+
+    transcribe: (audioPath: string) => processAudioWithGemini({
+      instruction: withVocabularyHints(TRANSCRIPTION_INSTRUCTION),
+      prompt: 'Transcribe this audio.',
+      media: { audioPath }
+    }),
+
+    refine: (request: RefineRequest) => generateContent(
+      [{ text: `${request.prompt}\n\n${request.text}` }],
+      request.instruction,
+      request.temperature,
+      request.model
+    ),
+
+    generate: (request: GenerateRequest) => request.media.videoPath
+      ? processVideoWithGemini(request)
+      : processAudioWithGemini(request)
+  };
 }
@@ -0,0 +1,285 @@
+import { app, clipboard } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { HISTORY_MAX_ENTRIES, HISTORY_RETENTION_DAYS } from './config';
+import { pasteTextToActiveWindow } from './clipboard';
+import { TranscriptSegment } from './providers';
+import { ExportFormat, TranscriptDocument, formatTranscript } from './formats';
+
+/**
+ * A saved transcription result
+ */
+export interface HistoryEntry {
+  id: string;
+  timestamp: number;
+  mode: string;
+  provider: string;
+  // Recording length in seconds
+  duration: number;
+  rawText: string;
+  refinedText: string;
+  targetApp: string | null;
+  // Timing of rawText (absent for older entries and rewrites)
+  segments?: TranscriptSegment[];
+}
+
+/**
+ * How long entries are kept (0 disables a limit)
+ */
+export interface RetentionPolicy {
+  maxEntries: number;
+  maxAgeDays: number;
+}
+
+const HISTORY_FILE_PATH = path.join(app.getPath('userData'), 'history.json');
+
+let entries: HistoryEntry[] | null = null;
+let retention: RetentionPolicy = {
+  maxEntries: HISTORY_MAX_ENTRIES,
+  maxAgeDays: HISTORY_RETENTION_DAYS
+};
+const changeListeners: Array<() => void> = [];
+
+/**
+ * Load entries from disk on first use (newest first)
+ */
+function loadEntries(): HistoryEntry[] {
+  if (entries) return entries;
+
+  entries = [];
+  try {
+    if (fs.existsSync(HISTORY_FILE_PATH)) {
+      const data = JSON.parse(fs.readFileSync(HISTORY_FILE_PATH, 'utf-8'));
+      if (Array.isArray(data)) {
+        entries = data.filter(entry => entry && typeof entry.id === 'string');
+      }
+    }
+  } catch (err) {
+    // Keep the unreadable file for inspection instead of overwriting it
+    console.error('Failed to load history, starting empty:', err);
+    try {
+      fs.renameSync(HISTORY_FILE_PATH, `${HISTORY_FILE_PATH}.corrupt`);
+    } catch (renameErr) {
+      console.warn('Could not move corrupt history file:', renameErr);
+    }
+  }
+
+  applyRetention(entries);
+  return entries;
+}
+
+/**
+ * Write entries to disk atomically
+ */
+function saveEntries() {
+  if (!entries) return;
+  try {
+    const tempPath = `${HISTORY_FILE_PATH}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entries, null, 2));
+    fs.renameSync(tempPath, HISTORY_FILE_PATH);
+  } catch (err) {
+    console.error('Failed to save history:', err);
+  }
+}
+
+/**
+ * Drop entries beyond the retention policy (in place)
+ */
+function applyRetention(list: HistoryEntry[]) {
+  if (retention.maxAgeDays > 0) {
+    const cutoff = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+    for (let i = list.length - 1; i >= 0; i--) {
+      if (list[i].timestamp < cutoff) {
+        list.splice(i, 1);
+      }
+    }
+  }
+  if (retention.maxEntries > 0 && list.length > retention.maxEntries) {
+    list.splice(retention.maxEntries);
+  }
+}
+
+/**
+ * Notify listeners (tray menu, renderer) that history changed
+ */
+function notifyChange() {
+  for (const listener of changeListeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.error('History change listener failed:', err);
+    }
+  }
+}
+
+/**
+ * Subscribe to history changes
+ */
+export function onHistoryChanged(listener: () => void) {
+  changeListeners.push(listener);
+}
+
+/**
+ * Save a new result
+ */
+export function addHistoryEntry(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): HistoryEntry {
+  const list = loadEntries();
+  const saved: HistoryEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    ...entry
+  };
+
+  list.unshift(saved);
+  applyRetention(list);
+  saveEntries();
+  notifyChange();
+  return saved;
+}
+
+/**
+ * List entries, newest first
+ */
+export function listHistory(limit = 0): HistoryEntry[] {
+  const list = loadEntries();
+  return limit > 0 ? list.slice(0, limit) : [...list];
+}
+
+/**
+ * Case-insensitive search over text and target app
+ */
+export function searchHistory(query: string): HistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return listHistory();
+
+  return loadEntries().filter(entry =>
+    entry.refinedText.toLowerCase().includes(needle) ||
+    entry.rawText.toLowerCase().includes(needle) ||
+    (entry.targetApp || '').toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Look up an entry by id
+ */
+export function getHistoryEntry(id: string): HistoryEntry | null {
+  return loadEntries().find(entry => entry.id === id) || null;
+}
+
+/**
+ * Delete an entry; returns false if it did not exist
+ */
+export function deleteHistoryEntry(id: string): boolean {
+  const list = loadEntries();
+  const index = list.findIndex(entry => entry.id === id);
+  if (index === -1) return false;
+
+  list.splice(index, 1);
+  saveEntries();
+  notifyChange();
+  return true;
+}
+
+/**
+ * Remove all entries
+ */
+export function clearHistory() {
+  const list = loadEntries();
+  list.splice(0);
+  saveEntries();
+  notifyChange();
+}
+
+/**
+ * Get the current retention policy
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  return { ...retention };
+}
+
+/**
+ * Change the retention policy and prune existing entries
+ */
+export function setRetentionPolicy(policy: Partial<RetentionPolicy>) {
+  // NaN would disable pruning without a word, so invalid values keep the current limit
+  const limit = (value: number | undefined, current: number, name: string) => {
+    if (value === undefined) return current;
+    if (!Number.isFinite(value)) {
+      console.warn(`Ignoring invalid history ${name}:`, value);
+      return current;
+    }
+    return Math.max(0, value);
+  };
+
+  retention = {
+    maxEntries: Math.floor(limit(policy.maxEntries, retention.maxEntries, 'maxEntries')),
+    maxAgeDays: limit(policy.maxAgeDays, retention.maxAgeDays, 'maxAgeDays')
+  };
+
+  const list = loadEntries();
+  const before = list.length;
+  applyRetention(list);
+  if (list.length !== before) {
+    saveEntries();
+    notifyChange();
+  }
+}
+
+/**
+ * Copy an entry's text to the clipboard
+ */
+export function copyHistoryEntry(id: string): boolean {
+  const entry = getHistoryEntry(id);
+  if (!entry) return false;
+
+  clipboard.writeText(entry.refinedText);
+  return true;
+}
+
+/**
+ * Paste an entry's text into the active window
+ */
+export async function repasteHistoryEntry(id: string): Promise<boolean> {
+  const entry = getHistoryEntry(id);
+  if (!entry) return false;
+
+  return pasteTextToActiveWindow(entry.refinedText);
+}
+
+/**
+ * Paste the most recent entry into the active window
+ */
+export async function repasteLastHistoryEntry(): Promise<boolean> {
+  const [latest] = listHistory(1);
+  if (!latest) return false;
+
+  return pasteTextToActiveWindow(latest.refinedText);
+}
+
+/**
+ * Build the export document for an entry
+ */
+function historyDocument(entry: HistoryEntry): TranscriptDocument {
+  return {
+    title: entry.targetApp ? `Dictation into ${entry.targetApp}` : 'Dictation',
+    createdAt: entry.timestamp,
+    mode: entry.mode,
+    provider: entry.provider,
+    duration: entry.duration,
+    text: entry.refinedText,
+    rawText: entry.rawText,
+    segments: entry.segments || []
+  };
+}
+
+/**
+ * Write an entry to a file in an export format; returns false if it did not exist
+ */
+export function exportHistoryEntry(id: string, format: ExportFormat, filePath: string): boolean {
+  const entry = getHistoryEntry(id);
+  if (!entry) return false;
+
+  fs.writeFileSync(filePath, formatTranscript(historyDocument(entry), format), 'utf-8');
+  return true;
+}
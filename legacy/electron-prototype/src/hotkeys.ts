@@ -0,0 +1,332 @@
+import { app, globalShortcut } from 'electron';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Actions that can be bound to a global shortcut
+ */
+export type HotkeyAction =
+  | 'toggleWindow'
+  | 'toggleRecording'
+  | 'cancelRecording'
+  | 'switchMode'
+  | 'repasteLast'
+  | 'rewriteSelection';
+
+// Accelerator per action ('' leaves the action unbound)
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+/**
+ * Registration result for one action
+ */
+export interface HotkeyStatus {
+  action: HotkeyAction;
+  accelerator: string;
+  registered: boolean;
+  error?: string;
+}
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  toggleWindow: 'Alt+R',
+  toggleRecording: 'Alt+L',
+  cancelRecording: 'Escape',
+  switchMode: 'Alt+M',
+  repasteLast: 'Alt+Shift+V',
+  rewriteSelection: 'Alt+E'
+};
+
+export const HOTKEY_LABELS: Record<HotkeyAction, string> = {
+  toggleWindow: 'Show/Hide',
+  toggleRecording: 'Start/Stop Recording',
+  cancelRecording: 'Cancel Recording',
+  switchMode: 'Switch Mode',
+  repasteLast: 'Re-paste Last Result',
+  rewriteSelection: 'Rewrite Selection'
+};
+
+const HOTKEYS_FILE_PATH = path.join(app.getPath('userData'), 'hotkeys.json');
+
+const HOTKEY_ACTIONS = Object.keys(DEFAULT_HOTKEYS) as HotkeyAction[];
+
+// Cancel is only registered while recording so Escape keeps working elsewhere
+const RECORDING_ONLY_ACTIONS: HotkeyAction[] = ['cancelRecording'];
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  command: 'Command',
+  cmd: 'Command',
+  control: 'Control',
+  ctrl: 'Control',
+  commandorcontrol: 'CommandOrControl',
+  cmdorctrl: 'CommandOrControl',
+  alt: 'Alt',
+  option: 'Alt',
+  altgr: 'AltGr',
+  shift: 'Shift',
+  super: 'Super',
+  meta: 'Super'
+};
+
+const NAMED_KEYS = [
+  'Plus', 'Space', 'Tab', 'Capslock', 'Numlock', 'Scrolllock', 'Backspace', 'Delete',
+  'Insert', 'Return', 'Enter', 'Up', 'Down', 'Left', 'Right', 'Home', 'End', 'PageUp',
+  'PageDown', 'Escape', 'Esc', 'VolumeUp', 'VolumeDown', 'VolumeMute', 'MediaNextTrack',
+  'MediaPreviousTrack', 'MediaStop', 'MediaPlayPause', 'PrintScreen',
+  'num0', 'num1', 'num2', 'num3', 'num4', 'num5', 'num6', 'num7', 'num8', 'num9',
+  'numdec', 'numadd', 'numsub', 'nummult', 'numdiv'
+];
+
+const KEY_ALIASES: Record<string, string> = { esc: 'Escape', return: 'Enter' };
+
+let bindings: HotkeyBindings = loadBindings();
+let handlers: Partial<Record<HotkeyAction, () => void>> = {};
+let status: Partial<Record<HotkeyAction, HotkeyStatus>> = {};
+
+// Accelerators currently registered with the OS, per action
+const registered = new Map<HotkeyAction, string>();
+
+/**
+ * Normalize an accelerator so aliases compare equal; null if invalid
+ */
+export function normalizeAccelerator(accelerator: string): string | null {
+  const parts = accelerator.split('+').map(part => part.trim());
+  if (parts.some(part => !part)) return null;
+
+  const key = parts.pop() as string;
+  const modifiers = new Set<string>();
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier || modifiers.has(modifier)) return null;
+    modifiers.add(modifier);
+  }
+
+  let normalizedKey: string | null = null;
+  if (/^[a-z0-9]$/i.test(key) || /^[`\-=[\]\\;',./~!@#$%^&*()_{}|:"<>?]$/.test(key)) {
+    normalizedKey = key.toUpperCase();
+  } else if (/^F([1-9]|1[0-9]|2[0-4])$/i.test(key)) {
+    normalizedKey = key.toUpperCase();
+  } else {
+    const named = NAMED_KEYS.find(name => name.toLowerCase() === key.toLowerCase());
+    if (named) {
+      normalizedKey = KEY_ALIASES[named.toLowerCase()] || named;
+    }
+  }
+  if (!normalizedKey) return null;
+
+  return [...Array.from(modifiers).sort(), normalizedKey].join('+');
+}
+
+/**
+ * Load bindings from disk, falling back to defaults per action
+ */
+function loadBindings(): HotkeyBindings {
+  const loaded: HotkeyBindings = { ...DEFAULT_HOTKEYS };
+
+  try {
+    if (fs.existsSync(HOTKEYS_FILE_PATH)) {
+      const data = JSON.parse(fs.readFileSync(HOTKEYS_FILE_PATH, 'utf-8'));
+      for (const action of HOTKEY_ACTIONS) {
+        const value = data?.[action];
+        if (value === '') {
+          loaded[action] = '';
+        } else if (typeof value === 'string' && normalizeAccelerator(value)) {
+          loaded[action] = value;
+        } else if (value !== undefined) {
+          console.error(`Invalid hotkey for ${action} in hotkeys.json, using default:`, value);
+        }
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load hotkeys, using defaults:', err);
+  }
+
+  return loaded;
+}
+
+/**
+ * Write bindings to disk
+ */
+function saveBindings() {
+  try {
+    fs.writeFileSync(HOTKEYS_FILE_PATH, JSON.stringify(bindings, null, 2));
+  } catch (err) {
+    console.error('Failed to save hotkeys:', err);
+  }
+}
+
+/**
+ * Find another action already using the same accelerator
+ */
+function findConflict(action: HotkeyAction, accelerator: string): HotkeyAction | null {
+  const normalized = normalizeAccelerator(accelerator);
+  if (!normalized) return null;
+
+  return HOTKEY_ACTIONS.find(other =>
+    other !== action && bindings[other] && normalizeAccelerator(bindings[other]) === normalized
+  ) || null;
+}
+
+/**
+ * Register one accelerator with the OS; returns an error message on failure
+ */
+function registerAccelerator(action: HotkeyAction, accelerator: string): string | null {
+  const handler = handlers[action];
+  if (!handler) return null;
+
+  try {
+    if (!globalShortcut.register(accelerator, handler)) {
+      return `${accelerator} is already in use by another application`;
+    }
+  } catch (err: any) {
+    return `${accelerator} could not be registered: ${err.message}`;
+  }
+
+  registered.set(action, accelerator);
+  return null;
+}
+
+/**
+ * Unregister an action's accelerator if we registered it
+ */
+function unregisterAction(action: HotkeyAction) {
+  const accelerator = registered.get(action);
+  if (accelerator) {
+    globalShortcut.unregister(accelerator);
+    registered.delete(action);
+  }
+}
+
+/**
+ * Register one action and record its status
+ */
+function applyBinding(action: HotkeyAction): HotkeyStatus {
+  unregisterAction(action);
+
+  const accelerator = bindings[action];
+  const result: HotkeyStatus = { action, accelerator, registered: false };
+
+  if (accelerator && !RECORDING_ONLY_ACTIONS.includes(action)) {
+    const conflict = findConflict(action, accelerator);
+    const error = conflict
+      ? `${accelerator} is also bound to ${HOTKEY_LABELS[conflict]}`
+      : registerAccelerator(action, accelerator);
+
+    if (error) {
+      result.error = error;
+      console.error(`Hotkey ${action}:`, error);
+    } else {
+      result.registered = registered.has(action);
+    }
+  }
+
+  status[action] = result;
+  return result;
+}
+
+/**
+ * Register all global hotkeys with the given action handlers
+ */
+export function registerHotkeys(actionHandlers: Partial<Record<HotkeyAction, () => void>>): HotkeyStatus[] {
+  handlers = { ...actionHandlers };
+  status = {};
+  return HOTKEY_ACTIONS.map(action => applyBinding(action));
+}
+
+/**
+ * Unregister every hotkey we registered
+ */
+export function unregisterHotkeys() {
+  for (const action of Array.from(registered.keys())) {
+    unregisterAction(action);
+  }
+}
+
+/**
+ * Rebind an action without restarting
+ *
+ * On failure the previous binding is restored and an error message returned.
+ */
+export function setHotkey(action: HotkeyAction, accelerator: string): string | null {
+  if (!HOTKEY_ACTIONS.includes(action)) {
+    return `Unknown hotkey action: ${action}`;
+  }
+
+  const trimmed = typeof accelerator === 'string' ? accelerator.trim() : '';
+  if (trimmed && !normalizeAccelerator(trimmed)) {
+    return `"${accelerator}" is not a valid shortcut`;
+  }
+
+  const conflict = trimmed ? findConflict(action, trimmed) : null;
+  if (conflict) {
+    return `${trimmed} is already bound to ${HOTKEY_LABELS[conflict]}`;
+  }
+
+  const previous = bindings[action];
+  bindings = { ...bindings, [action]: trimmed };
+
+  const result = applyBinding(action);
+  if (result.error) {
+    bindings = { ...bindings, [action]: previous };
+    applyBinding(action);
+    return result.error;
+  }
+
+  saveBindings();
+  console.log(`Hotkey ${action} set to: ${trimmed || '(none)'}`);
+  return null;
+}
+
+/**
+ * Restore default bindings
+ */
+export function resetHotkeys(): HotkeyStatus[] {
+  unregisterHotkeys();
+  bindings = { ...DEFAULT_HOTKEYS };
+  saveBindings();
+  return HOTKEY_ACTIONS.map(action => applyBinding(action));
+}
+
+/**
+ * Current bindings
+ */
+export function getHotkeyBindings(): HotkeyBindings {
+  return { ...bindings };
+}
+
+/**
+ * Registration status of every action
+ */
+export function getHotkeyStatus(): HotkeyStatus[] {
+  return HOTKEY_ACTIONS.map(action =>
+    status[action] || { action, accelerator: bindings[action], registered: false }
+  );
+}
+
+/**
+ * Register the cancel shortcut for the duration of a recording
+ */
+export function registerCancelHotkey(handler: () => void): boolean {
+  unregisterAction('cancelRecording');
+
+  const accelerator = bindings.cancelRecording;
+  if (!accelerator) return false;
+
+  handlers.cancelRecording = handler;
+  const error = registerAccelerator('cancelRecording', accelerator);
+  if (error) {
+    console.error('Cancel hotkey:', error);
+  }
+  status.cancelRecording = {
+    action: 'cancelRecording',
+    accelerator,
+    registered: !error,
+    ...(error ? { error } : {})
+  };
+  return !error;
+}
+
+/**
+ * Release the cancel shortcut after recording
+ */
+export function unregisterCancelHotkey() {
+  unregisterAction('cancelRecording');
+}
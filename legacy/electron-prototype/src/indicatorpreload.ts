@@ -0,0 +1,9 @@
+import { contextBridge, ipcRenderer } from 'electron';
+import type { AudioLevel } from './meter';
+
+// Bridge for the recording indicator window (only type imports: sandboxed preloads cannot load local modules)
+contextBridge.exposeInMainWorld('indicator', {
+  onLevel: (callback: (level: AudioLevel) => void) => {
+    ipcRenderer.on('audio-level', (_event, level) => callback(level));
+  }
+});
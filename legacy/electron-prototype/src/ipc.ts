@@ -1,20 +1,136 @@
-import { ipcMain, desktopCapturer } from 'electron';
+import { ipcMain, desktopCapturer, dialog, BrowserWindow, clipboard } from 'electron';
 import fs from 'fs';
 import {
-  mainWindow, isRecording,
-  setCurrentMode, setIncludeVideo,
+  mainWindow, isRecording, currentMode, audioInputDevice,
+  translationTargetLanguage, translationKeepSource, recordedVideoFrames,
+  captureSources, recordingCaptureSource,
   setVideoRecordingConfirmed, addVideoFrame
 } from './state';
-import { VIDEO_FILE_PATH } from './config';
-import { playSound, updateStatus } from './windows';
+import { VIDEO_FILE_PATH, TRANSLATION_LANGUAGES, BATCH_AUDIO_EXTENSIONS } from './config';
+import { playSound, updateStatus, refreshTrayMenu } from './windows';
+import { hasProvider, listProviders, getProvider } from './providers';
+import { getApiKey, storeApiKey, removeApiKey, listApiKeys, getSecretBackend } from './secrets';
+import { getLocalWhisperStatus } from './whisper';
+import { listAudioInputDevices } from './audio';
+import { listModes, getModeErrors, loadCustomModes, selectMode, getMode } from './modes';
+import { getHotkeyBindings, getHotkeyStatus, setHotkey, resetHotkeys, DEFAULT_HOTKEYS } from './hotkeys';
+import {
+  getDictionary, addVocabularyTerm, removeVocabularyTerm,
+  addReplacementRule, updateReplacementRule, removeReplacementRule
+} from './dictionary';
+import {
+  listHistory, searchHistory, copyHistoryEntry, repasteHistoryEntry,
+  deleteHistoryEntry, clearHistory, onHistoryChanged, getHistoryEntry, exportHistoryEntry
+} from './history';
+import { getSettings, updateSettings, resetSettings, onSettingsChanged } from './settings';
+import { exportSettingsBundle, importSettingsBundle } from './bundle';
+import { listQueue, removeQueuedRecording, onQueueChanged } from './queue';
+import { retryQueued } from './retry';
+import { startBatch, cancelBatch, getBatchJob, onBatchProgress } from './batch';
+import { EXPORT_FORMATS, isExportFormat } from './formats';
+import { getSessionType, listPasteStrategies, getPasteStrategy } from './paste';
+import { testPasteStrategy } from './clipboard';
+import { toBinaryData, toVideoFrame, isNearDuplicate } from './frames';
+import { CaptureRegion, listCaptureSources, isCaptureSource, cropFrame } from './capture';
 
 // Callback for cancel recording (set by recording module)
 let cancelRecordingCallback: (() => void) | null = null;
+let rewriteSelectionCallback: (() => void) | null = null;
 
 export function setCancelRecordingCallback(cb: () => void) {
   cancelRecordingCallback = cb;
 }
 
+export function setRewriteSelectionCallback(cb: () => void) {
+  rewriteSelectionCallback = cb;
+}
+
+/**
+ * Send the dictionary to the renderer
+ */
+function sendDictionary() {
+  if (mainWindow) {
+    mainWindow.webContents.send('dictionary', getDictionary());
+  }
+}
+
+/**
+ * Send hotkey bindings and registration status to the renderer
+ */
+function sendHotkeys() {
+  if (mainWindow) {
+    mainWindow.webContents.send('hotkeys', {
+      bindings: getHotkeyBindings(),
+      defaults: DEFAULT_HOTKEYS,
+      status: getHotkeyStatus()
+    });
+  }
+}
+
+/**
+ * Send the translation settings to the renderer
+ */
+function sendTranslationSettings() {
+  if (mainWindow) {
+    mainWindow.webContents.send('translation-settings', {
+      targetLanguage: translationTargetLanguage,
+      keepSource: translationKeepSource,
+      languages: TRANSLATION_LANGUAGES
+    });
+  }
+}
+
+/**
+ * Send where each provider key comes from (never the keys themselves)
+ */
+function sendApiKeys() {
+  if (mainWindow) {
+    mainWindow.webContents.send('api-keys', {
+      keys: listApiKeys(),
+      backend: getSecretBackend()
+    });
+  }
+}
+
+/**
+ * Check a key with its provider and report the result to the renderer
+ */
+async function validateApiKey(providerId: string, apiKey?: string) {
+  const provider = getProvider(providerId);
+  const key = apiKey || getApiKey(providerId);
+  let error: string | null = null;
+
+  if (!provider?.validateApiKey) {
+    error = `Provider ${providerId} does not use an API key`;
+  } else if (!key) {
+    error = 'No API key set';
+  } else {
+    error = await provider.validateApiKey(key);
+  }
+
+  mainWindow?.webContents.send('api-key-validation', { providerId, valid: !error, error });
+}
+
+/**
+ * Apply a settings change and report validation errors to the renderer
+ */
+function applySettings(patch: any): boolean {
+  const errors = updateSettings(patch);
+  if (errors.length > 0) {
+    console.error('Invalid settings:', errors.join('; '));
+    mainWindow?.webContents.send('settings-error', errors);
+  }
+  return errors.length === 0;
+}
+
+/**
+ * Crop frame data sent over IPC to a region (null if it cannot be read)
+ */
+function cropFrameData(frameData: unknown, region: CaptureRegion): Buffer | null {
+  const data = toBinaryData(frameData);
+  return data ? cropFrame(data, region) : null;
+}
+
 /**
  * Register all IPC handlers
  */
@@ -26,16 +142,158 @@ export function registerIpcHandlers() {
     }
   });
 
-  // Set mode (prompt/transcription)
+  // Rewrite the selection in the previously focused window
+  ipcMain.on('start-rewrite', async () => {
+    if (isRecording) return;
+    if (mainWindow) {
+      mainWindow.hide();
+    }
+    // Give focus time to return to the other application
+    await new Promise(resolve => setTimeout(resolve, 200));
+    rewriteSelectionCallback?.();
+  });
+
+  // Set mode (built-in or custom mode id)
   ipcMain.on('set-mode', (_event, mode) => {
     console.log(`Switching mode to: ${mode}`);
-    setCurrentMode(mode);
+    if (!selectMode(mode) && mainWindow) {
+      mainWindow.webContents.send('modes-error', [`Unknown mode: ${mode}`]);
+    }
+  });
+
+  // List available modes and any problems in modes.json
+  ipcMain.on('get-modes', () => {
+    if (mainWindow) {
+      mainWindow.webContents.send('modes-list', {
+        modes: listModes(),
+        current: currentMode,
+        errors: getModeErrors()
+      });
+    }
+  });
+
+  // Re-read modes.json after the user edits it
+  ipcMain.on('reload-modes', () => {
+    const { errors } = loadCustomModes();
+    refreshTrayMenu();
+    if (mainWindow) {
+      mainWindow.webContents.send('modes-list', { modes: listModes(), current: currentMode, errors });
+    }
+  });
+
+  // Set active transcription provider
+  ipcMain.on('set-provider', (_event, providerId) => {
+    if (!hasProvider(providerId)) {
+      console.error(`Unknown provider: ${providerId}`);
+      return;
+    }
+    console.log(`Switching provider to: ${providerId}`);
+    applySettings({ provider: providerId });
+  });
+
+  // API keys: which providers have a key and where it is stored
+  ipcMain.on('get-api-keys', () => {
+    sendApiKeys();
+  });
+
+  // API keys: store a key encrypted, then check it with the provider
+  ipcMain.on('set-api-key', async (_event, providerId, apiKey) => {
+    const error = storeApiKey(providerId, apiKey);
+    if (error) {
+      console.error('Failed to store API key:', error);
+      mainWindow?.webContents.send('api-key-validation', { providerId, valid: false, error });
+    } else {
+      await validateApiKey(providerId);
+    }
+    sendApiKeys();
+  });
+
+  // API keys: check a key (the stored one when none is given)
+  ipcMain.on('validate-api-key', async (_event, providerId, apiKey) => {
+    await validateApiKey(providerId, typeof apiKey === 'string' ? apiKey.trim() : undefined);
+  });
+
+  // API keys: forget a stored key
+  ipcMain.on('remove-api-key', (_event, providerId) => {
+    removeApiKey(providerId);
+    sendApiKeys();
+  });
+
+  // List available providers
+  ipcMain.on('get-providers', () => {
+    if (mainWindow) {
+      mainWindow.webContents.send('providers-list', listProviders());
+    }
+  });
+
+  // Set local Whisper model path
+  ipcMain.on('set-local-model-path', (_event, modelPath) => {
+    if (typeof modelPath !== 'string' || !modelPath) {
+      console.error('Invalid local model path:', modelPath);
+      return;
+    }
+    if (!fs.existsSync(modelPath)) {
+      console.warn('Local model path does not exist yet:', modelPath);
+    }
+    console.log(`Local model path: ${modelPath}`);
+    applySettings({ localModelPath: modelPath });
+  });
+
+  // Report local Whisper availability
+  ipcMain.on('get-local-whisper-status', () => {
+    if (mainWindow) {
+      mainWindow.webContents.send('local-whisper-status', getLocalWhisperStatus());
+    }
+  });
+
+  // Microphones: list input devices and the selected one
+  ipcMain.on('get-audio-devices', async () => {
+    const devices = await listAudioInputDevices();
+    const missing = Boolean(audioInputDevice) && devices.length > 0
+      && !devices.some(device => device.id === audioInputDevice);
+    mainWindow?.webContents.send('audio-devices', {
+      devices,
+      selected: audioInputDevice,
+      // The saved device is not connected right now
+      missing
+    });
+  });
+
+  // Microphones: choose the input device ('' for the system default)
+  ipcMain.on('set-audio-device', (_event, deviceId) => {
+    console.log(`Audio input device: ${deviceId || '(default)'}`);
+    applySettings({ audioInputDevice: typeof deviceId === 'string' ? deviceId : '' });
+  });
+
+  // Translation settings (target language and whether to keep the source text)
+  ipcMain.on('set-translation', (_event, settings) => {
+    const { targetLanguage, keepSource } = settings || {};
+    applySettings({ translation: { targetLanguage, keepSource } });
+    console.log(`Translation: ${translationTargetLanguage} (keep source: ${translationKeepSource})`);
+    sendTranslationSettings();
+  });
+
+  // Current translation settings
+  ipcMain.on('get-translation', () => {
+    sendTranslationSettings();
+  });
+
+  // Push-to-talk setting
+  ipcMain.on('set-push-to-talk', (_event, enabled) => {
+    console.log(`Push-to-talk: ${enabled}`);
+    applySettings({ pushToTalk: Boolean(enabled) });
+  });
+
+  // Streaming transcription setting
+  ipcMain.on('set-streaming', (_event, enabled) => {
+    console.log(`Streaming transcription: ${enabled}`);
+    applySettings({ streaming: Boolean(enabled) });
   });
 
   // Include video setting
   ipcMain.on('set-include-video', (_event, enabled) => {
     console.log(`Include video: ${enabled}`);
-    setIncludeVideo(enabled);
+    applySettings({ includeVideo: Boolean(enabled) });
   });
 
   // Video recording started confirmation
@@ -53,16 +311,39 @@ export function registerIpcHandlers() {
     }
   });
 
-  // Receive video frames
-  ipcMain.on('video-frame', (_event, frameData) => {
-    addVideoFrame(frameData);
+  // Receive video frames (binary JPEG), keeping only ones where the screen changed
+  ipcMain.on('video-frame', (_event, frameData, capturedAt) => {
+    // Crop a region before anything is stored; frames that cannot be cropped are dropped
+    const region = recordingCaptureSource?.type === 'region' ? recordingCaptureSource.region : undefined;
+    const data = region ? cropFrameData(frameData, region) : frameData;
+
+    const previous = recordedVideoFrames[recordedVideoFrames.length - 1] || null;
+    const frame = data && toVideoFrame(data, previous, typeof capturedAt === 'number' ? capturedAt : Date.now());
+    if (!frame) {
+      console.warn('Ignoring unreadable video frame');
+      return;
+    }
+    if (!isNearDuplicate(frame)) {
+      addVideoFrame(frame);
+    }
   });
 
   // Receive complete video file
   ipcMain.on('video-file-complete', (_event, videoData) => {
-    console.log('Received video file, size:', videoData.length);
+    // The recording shows the whole screen, so a region sends only its cropped frames
+    if (recordingCaptureSource?.type === 'region') {
+      console.log('Discarding full-screen video of a region capture');
+      setVideoRecordingConfirmed(true);
+      return;
+    }
+
+    const buffer = toBinaryData(videoData);
+    if (!buffer) {
+      console.error('Received no video data');
+      return;
+    }
+    console.log('Received video file, size:', buffer.length);
     try {
-      const buffer = Buffer.from(videoData, 'base64');
       fs.writeFileSync(VIDEO_FILE_PATH, buffer);
       setVideoRecordingConfirmed(true);
       console.log('Video file saved:', VIDEO_FILE_PATH);
@@ -71,6 +352,326 @@ export function registerIpcHandlers() {
     }
   });
 
+  // History: list recent entries
+  ipcMain.on('get-history', (_event, limit) => {
+    if (mainWindow) {
+      mainWindow.webContents.send('history-list', listHistory(Number(limit) || 0));
+    }
+  });
+
+  // History: search entries
+  ipcMain.on('search-history', (_event, query) => {
+    if (mainWindow) {
+      mainWindow.webContents.send('history-list', searchHistory(String(query || '')));
+    }
+  });
+
+  // History: copy entry to clipboard
+  ipcMain.on('copy-history-entry', (_event, id) => {
+    if (!copyHistoryEntry(id)) {
+      console.error('History entry not found:', id);
+    }
+  });
+
+  // History: paste entry into the window that had focus before ours
+  ipcMain.on('repaste-history-entry', async (_event, id) => {
+    if (mainWindow) {
+      mainWindow.hide();
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+    if (!await repasteHistoryEntry(id)) {
+      console.error('History entry not found:', id);
+    }
+  });
+
+  // History: delete entry
+  ipcMain.on('delete-history-entry', (_event, id) => {
+    deleteHistoryEntry(id);
+  });
+
+  // History: delete all entries
+  ipcMain.on('clear-history', () => {
+    clearHistory();
+  });
+
+  // History: save an entry as text, subtitles, Markdown or JSON
+  ipcMain.on('export-history-entry', async (_event, id, format) => {
+    const entry = getHistoryEntry(id);
+    if (!entry || !isExportFormat(format)) {
+      console.error('Cannot export history entry:', id, format);
+      mainWindow?.webContents.send('export-error', 'Entry or format not found');
+      return;
+    }
+
+    const formatInfo = EXPORT_FORMATS.find(item => item.id === format);
+    const stamp = new Date(entry.timestamp).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    const result = await dialog.showSaveDialog({
+      title: 'Export Transcript',
+      defaultPath: `transcript-${stamp}.${format}`,
+      filters: [{ name: formatInfo ? formatInfo.name : format, extensions: [format] }]
+    });
+    if (result.canceled || !result.filePath) return;
+
+    try {
+      exportHistoryEntry(id, format, result.filePath);
+      mainWindow?.webContents.send('history-exported', result.filePath);
+    } catch (error: any) {
+      console.error('Failed to export history entry:', error);
+      mainWindow?.webContents.send('export-error', error.message);
+    }
+  });
+
+  // Export formats for history entries and batch jobs
+  ipcMain.on('get-export-formats', () => {
+    mainWindow?.webContents.send('export-formats', EXPORT_FORMATS);
+  });
+
+  // History: retention policy
+  ipcMain.on('set-history-retention', (_event, policy) => {
+    console.log('History retention:', policy);
+    applySettings({ history: policy || {} });
+  });
+
+  // Tell the renderer to refresh its history view
+  onHistoryChanged(() => {
+    if (mainWindow) {
+      mainWindow.webContents.send('history-changed');
+    }
+  });
+
+  // Retry queue: failed recordings waiting to be processed
+  ipcMain.on('get-queue', () => {
+    if (mainWindow) {
+      mainWindow.webContents.send('queue', listQueue());
+    }
+  });
+
+  // Retry queue: retry one recording (or all without an id)
+  ipcMain.on('retry-queued', (_event, id) => {
+    retryQueued(typeof id === 'string' ? id : undefined);
+  });
+
+  // Retry queue: discard a recording
+  ipcMain.on('remove-queued', (_event, id) => {
+    if (!removeQueuedRecording(id)) {
+      console.error('Queued recording not found:', id);
+    }
+  });
+
+  // Tell the renderer to refresh its queue view
+  onQueueChanged(() => {
+    if (mainWindow) {
+      mainWindow.webContents.send('queue-changed');
+    }
+  });
+
+  // Batch: pick audio files to transcribe
+  ipcMain.on('choose-batch-files', async () => {
+    const result = await dialog.showOpenDialog({
+      title: 'Transcribe Audio Files',
+      properties: ['openFile', 'multiSelections'],
+      filters: [{ name: 'Audio', extensions: BATCH_AUDIO_EXTENSIONS }]
+    });
+    if (result.canceled) return;
+    mainWindow?.webContents.send('batch-files', result.filePaths);
+  });
+
+  // Batch: pick a folder for the transcripts
+  ipcMain.on('choose-batch-output', async () => {
+    const result = await dialog.showOpenDialog({
+      title: 'Save Transcripts To',
+      properties: ['openDirectory', 'createDirectory']
+    });
+    if (result.canceled || result.filePaths.length === 0) return;
+    mainWindow?.webContents.send('batch-output', result.filePaths[0]);
+  });
+
+  // Batch: start transcribing ({ files, outputDir, mode, formats })
+  ipcMain.on('start-batch', (_event, request) => {
+    const errors = startBatch(request || { files: [] });
+    if (errors.length > 0) {
+      console.error('Batch not started:', errors.join('; '));
+      mainWindow?.webContents.send('batch-error', errors);
+    }
+  });
+
+  // Batch: stop after the files in progress
+  ipcMain.on('cancel-batch', () => {
+    cancelBatch();
+  });
+
+  // Batch: current job, e.g. after the window was reopened
+  ipcMain.on('get-batch', () => {
+    mainWindow?.webContents.send('batch-progress', getBatchJob());
+  });
+
+  onBatchProgress((job) => {
+    mainWindow?.webContents.send('batch-progress', job);
+  });
+
+  // Dictionary: current vocabulary and rules
+  ipcMain.on('get-dictionary', () => {
+    sendDictionary();
+  });
+
+  // Dictionary: add vocabulary term
+  ipcMain.on('add-vocabulary-term', (_event, term) => {
+    addVocabularyTerm(term);
+    sendDictionary();
+  });
+
+  // Dictionary: remove vocabulary term
+  ipcMain.on('remove-vocabulary-term', (_event, term) => {
+    removeVocabularyTerm(term);
+    sendDictionary();
+  });
+
+  // Dictionary: add replacement rule
+  ipcMain.on('add-replacement-rule', (_event, rule) => {
+    const result = addReplacementRule(rule);
+    if (typeof result === 'string') {
+      console.error('Invalid replacement rule:', result);
+      mainWindow?.webContents.send('dictionary-error', result);
+    }
+    sendDictionary();
+  });
+
+  // Dictionary: update replacement rule
+  ipcMain.on('update-replacement-rule', (_event, id, changes) => {
+    const result = updateReplacementRule(id, changes);
+    if (typeof result === 'string') {
+      console.error('Invalid replacement rule:', result);
+      mainWindow?.webContents.send('dictionary-error', result);
+    }
+    sendDictionary();
+  });
+
+  // Dictionary: remove replacement rule
+  ipcMain.on('remove-replacement-rule', (_event, id) => {
+    removeReplacementRule(id);
+    sendDictionary();
+  });
+
+  // Hotkeys: current bindings and registration status
+  ipcMain.on('get-hotkeys', () => {
+    sendHotkeys();
+  });
+
+  // Hotkeys: rebind an action (applied immediately)
+  ipcMain.on('set-hotkey', (_event, action, accelerator) => {
+    const error = setHotkey(action, accelerator);
+    if (error) {
+      console.error('Failed to set hotkey:', error);
+      mainWindow?.webContents.send('hotkey-error', { action, error });
+    }
+    refreshTrayMenu();
+    sendHotkeys();
+  });
+
+  // Hotkeys: restore defaults
+  ipcMain.on('reset-hotkeys', () => {
+    resetHotkeys();
+    refreshTrayMenu();
+    sendHotkeys();
+  });
+
+  // Settings: current values
+  ipcMain.on('get-settings', () => {
+    mainWindow?.webContents.send('settings', getSettings());
+  });
+
+  // Settings: change one or more values
+  ipcMain.on('update-settings', (_event, patch) => {
+    if (patch?.mode !== undefined && !getMode(patch.mode)) {
+      mainWindow?.webContents.send('settings-error', [`Unknown mode: ${patch.mode}`]);
+      return;
+    }
+    if (patch?.provider !== undefined && !hasProvider(patch.provider)) {
+      mainWindow?.webContents.send('settings-error', [`Unknown provider: ${patch.provider}`]);
+      return;
+    }
+    const strategy = patch?.paste?.strategy;
+    if (strategy !== undefined && strategy !== 'auto' && !getPasteStrategy(strategy)) {
+      mainWindow?.webContents.send('settings-error', [`Unknown paste strategy: ${strategy}`]);
+      return;
+    }
+    applySettings(patch);
+  });
+
+  // Settings: restore defaults
+  ipcMain.on('reset-settings', () => {
+    resetSettings();
+  });
+
+  // Settings: export settings, custom modes and dictionary to a file
+  ipcMain.on('export-settings', async () => {
+    const result = await dialog.showSaveDialog({
+      title: 'Export Settings',
+      defaultPath: 'clarifyvoice-settings.json',
+      filters: [{ name: 'JSON', extensions: ['json'] }]
+    });
+    if (result.canceled || !result.filePath) return;
+
+    const error = exportSettingsBundle(result.filePath);
+    if (error) {
+      console.error(error);
+      mainWindow?.webContents.send('settings-error', [error]);
+    } else {
+      mainWindow?.webContents.send('settings-exported', result.filePath);
+    }
+  });
+
+  // Settings: import a bundle exported on another machine
+  ipcMain.on('import-settings', async () => {
+    const result = await dialog.showOpenDialog({
+      title: 'Import Settings',
+      properties: ['openFile'],
+      filters: [{ name: 'JSON', extensions: ['json'] }]
+    });
+    if (result.canceled || result.filePaths.length === 0) return;
+
+    const errors = importSettingsBundle(result.filePaths[0]);
+    if (errors.length > 0) {
+      console.error('Settings import problems:', errors.join('; '));
+      mainWindow?.webContents.send('settings-error', errors);
+    }
+    refreshTrayMenu();
+    mainWindow?.webContents.send('settings-imported', { errors });
+  });
+
+  // Paste strategies and whether each works in this session
+  ipcMain.on('get-paste-strategies', () => {
+    mainWindow?.webContents.send('paste-strategies', {
+      session: getSessionType(),
+      strategies: listPasteStrategies()
+    });
+  });
+
+  // Paste or type sample text with one strategy into the window focused after a countdown
+  ipcMain.on('test-paste-strategy', async (_event, id, method) => {
+    if (mainWindow) {
+      mainWindow.hide();
+    }
+    // Time for the user to focus the app to test with
+    await new Promise(resolve => setTimeout(resolve, 3000));
+
+    try {
+      await testPasteStrategy(id, method === 'type' ? 'type' : 'paste');
+      mainWindow?.webContents.send('paste-strategy-tested', { id, ok: true, error: null });
+    } catch (error: any) {
+      console.error(`Paste strategy test failed (${id}):`, error);
+      mainWindow?.webContents.send('paste-strategy-tested', { id, ok: false, error: error.message });
+    }
+    mainWindow?.show();
+  });
+
+  // Tell every window about settings changes
+  onSettingsChanged((settings, changedKeys) => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('settings-changed', settings, changedKeys);
+    }
+  });
+
   // Close app
   ipcMain.on('close-app', () => {
     const { app } = require('electron');
@@ -84,6 +685,13 @@ export function registerIpcHandlers() {
     }
   });
 
+  // Copy a result that was shown instead of pasted
+  ipcMain.on('copy-transcription', (_event, text) => {
+    if (typeof text !== 'string') return;
+    clipboard.writeText(text);
+    mainWindow?.webContents.send('transcription-copied');
+  });
+
   // Hide transcription (restore window size)
   ipcMain.on('hide-transcription', () => {
     if (mainWindow) {
@@ -96,6 +704,34 @@ export function registerIpcHandlers() {
     }
   });
 
+  // Screen context: screens and windows to pick from, and the current mode's choice
+  ipcMain.on('get-capture-sources', async (_event, modeId) => {
+    const mode = typeof modeId === 'string' && modeId ? modeId : currentMode;
+    try {
+      mainWindow?.webContents.send('capture-sources', {
+        mode,
+        selected: captureSources[mode] || null,
+        sources: await listCaptureSources()
+      });
+    } catch (error: any) {
+      console.error('Failed to list capture sources:', error);
+      mainWindow?.webContents.send('capture-source-error', error.message);
+    }
+  });
+
+  // Screen context: save a screen, window or region for a mode (null captures the whole screen)
+  ipcMain.on('set-capture-source', (_event, modeId, source) => {
+    if (!getMode(modeId)) {
+      mainWindow?.webContents.send('capture-source-error', `Unknown mode: ${modeId}`);
+      return;
+    }
+    if (source !== null && !isCaptureSource(source)) {
+      mainWindow?.webContents.send('capture-source-error', 'Invalid capture source');
+      return;
+    }
+    applySettings({ captureSources: { [modeId]: source } });
+  });
+
   // Test video capture
   ipcMain.on('test-video-capture', async () => {
     console.log('Testing video capture...');
@@ -0,0 +1,61 @@
+import { SAMPLE_RATE, BYTES_PER_SAMPLE } from './wav';
+import { analyzeFrame } from './vad';
+
+// Level updates sent to the indicator per second
+const UPDATES_PER_SECOND = 20;
+const FRAME_SAMPLES = Math.round(SAMPLE_RATE / UPDATES_PER_SECOND);
+// Levels below this map to an empty meter (dBFS)
+const METER_FLOOR_DB = -60;
+// A muted or unplugged microphone delivers (near) digital silence
+const NO_INPUT_DB = -70;
+const NO_INPUT_SECONDS = 2;
+
+/**
+ * One level update for the recording indicator
+ */
+export interface AudioLevel {
+  // 0 (silent) to 1 (full scale)
+  level: number;
+  db: number;
+  // True after a stretch with no signal at all
+  noInput: boolean;
+}
+
+export interface LevelMeter {
+  push(pcm: Buffer): void;
+}
+
+/**
+ * Create a meter that turns the sox PCM stream into level updates
+ */
+export function createLevelMeter(onLevel: (level: AudioLevel) => void): LevelMeter {
+  const noInputFrames = NO_INPUT_SECONDS * UPDATES_PER_SECOND;
+  let remainder = Buffer.alloc(0);
+  let silentFrames = 0;
+
+  return {
+    push: (pcm: Buffer) => {
+      const data = remainder.length > 0 ? Buffer.concat([remainder, pcm]) : pcm;
+      const frameBytes = FRAME_SAMPLES * BYTES_PER_SAMPLE;
+      let offset = 0;
+
+      for (; offset + frameBytes <= data.length; offset += frameBytes) {
+        const samples = new Int16Array(FRAME_SAMPLES);
+        for (let i = 0; i < FRAME_SAMPLES; i++) {
+          samples[i] = data.readInt16LE(offset + i * BYTES_PER_SAMPLE);
+        }
+
+        const { levelDb } = analyzeFrame(samples);
+        silentFrames = levelDb < NO_INPUT_DB ? silentFrames + 1 : 0;
+
+        onLevel({
+          level: Math.min(1, Math.max(0, (levelDb - METER_FLOOR_DB) / -METER_FLOOR_DB)),
+          db: Math.round(levelDb * 10) / 10,
+          noInput: silentFrames >= noInputFrames
+        });
+      }
+
+      remainder = Buffer.from(data.subarray(offset));
+    }
+  };
+}
@@ -0,0 +1,281 @@
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { currentMode, setCurrentMode } from './state';
+import { updateSettings } from './settings';
+
+/**
+ * A dictation mode selectable from the main window or tray
+ */
+export interface DictationMode {
+  id: string;
+  name: string;
+  systemInstruction: string;
+  userPrompt: string;
+  temperature: number;
+  // Provider model override (provider default when omitted)
+  model?: string;
+  allowVideo: boolean;
+  builtin: boolean;
+}
+
+export const MODES_FILE_PATH = path.join(app.getPath('userData'), 'modes.json');
+
+const DEFAULT_USER_PROMPT = 'Process this audio according to the instructions.';
+const DEFAULT_TEMPERATURE = 0.3;
+
+// Built-in modes keep their prompts in config.ts and transcription.ts
+const BUILTIN_MODES: DictationMode[] = [
+  {
+    id: 'prompt',
+    name: 'Prompt',
+    systemInstruction: '',
+    userPrompt: '',
+    temperature: DEFAULT_TEMPERATURE,
+    allowVideo: true,
+    builtin: true
+  },
+  {
+    id: 'transcription',
+    name: 'Transcription',
+    systemInstruction: '',
+    userPrompt: '',
+    temperature: DEFAULT_TEMPERATURE,
+    allowVideo: true,
+    builtin: true
+  },
+  {
+    id: 'translation',
+    name: 'Translation',
+    systemInstruction: '',
+    userPrompt: '',
+    temperature: DEFAULT_TEMPERATURE,
+    allowVideo: false,
+    builtin: true
+  }
+];
+
+let customModes: DictationMode[] = [];
+let loadErrors: string[] = [];
+
+/**
+ * Validate one raw mode definition; returns the mode or a list of problems
+ */
+function validateMode(raw: any, label: string, seenIds: Set<string>): DictationMode | string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return [`${label}: must be an object`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof raw.id !== 'string' || !/^[a-z0-9_-]+$/i.test(raw.id)) {
+    errors.push(`${label}: "id" must contain only letters, numbers, "-" or "_"`);
+  } else if (seenIds.has(raw.id)) {
+    errors.push(`${label}: id "${raw.id}" is already used by another mode`);
+  }
+  if (typeof raw.name !== 'string' || !raw.name.trim()) {
+    errors.push(`${label}: "name" is required`);
+  }
+  if (typeof raw.systemInstruction !== 'string' || !raw.systemInstruction.trim()) {
+    errors.push(`${label}: "systemInstruction" is required`);
+  }
+  if (raw.userPrompt !== undefined && typeof raw.userPrompt !== 'string') {
+    errors.push(`${label}: "userPrompt" must be a string`);
+  }
+  if (raw.temperature !== undefined &&
+    (typeof raw.temperature !== 'number' || raw.temperature < 0 || raw.temperature > 2)) {
+    errors.push(`${label}: "temperature" must be a number between 0 and 2`);
+  }
+  if (raw.model !== undefined && (typeof raw.model !== 'string' || !raw.model.trim())) {
+    errors.push(`${label}: "model" must be a non-empty string`);
+  }
+  if (raw.allowVideo !== undefined && typeof raw.allowVideo !== 'boolean') {
+    errors.push(`${label}: "allowVideo" must be true or false`);
+  }
+
+  if (errors.length > 0) return errors;
+
+  return {
+    id: raw.id,
+    name: raw.name.trim(),
+    systemInstruction: raw.systemInstruction,
+    userPrompt: raw.userPrompt?.trim() || DEFAULT_USER_PROMPT,
+    temperature: raw.temperature ?? DEFAULT_TEMPERATURE,
+    model: raw.model?.trim(),
+    allowVideo: raw.allowVideo ?? false,
+    builtin: false
+  };
+}
+
+/**
+ * Load custom modes from the user's modes.json
+ *
+ * Invalid definitions are skipped and reported; valid ones are still loaded.
+ */
+export function loadCustomModes(): { modes: DictationMode[]; errors: string[] } {
+  customModes = [];
+  loadErrors = [];
+
+  if (!fs.existsSync(MODES_FILE_PATH)) {
+    return { modes: [], errors: [] };
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(MODES_FILE_PATH, 'utf-8'));
+  } catch (err: any) {
+    loadErrors.push(`modes.json is not valid JSON: ${err.message}`);
+    console.error(loadErrors[0]);
+    return { modes: [], errors: loadErrors };
+  }
+
+  const rawModes = Array.isArray(data) ? data : data?.modes;
+  if (!Array.isArray(rawModes)) {
+    loadErrors.push('modes.json must contain an array of modes or an object with a "modes" array');
+    console.error(loadErrors[0]);
+    return { modes: [], errors: loadErrors };
+  }
+
+  const seenIds = new Set(BUILTIN_MODES.map(mode => mode.id));
+  rawModes.forEach((raw, index) => {
+    const label = `mode #${index + 1}${typeof raw?.id === 'string' ? ` ("${raw.id}")` : ''}`;
+    const result = validateMode(raw, label, seenIds);
+    if (Array.isArray(result)) {
+      loadErrors.push(...result);
+    } else {
+      seenIds.add(result.id);
+      customModes.push(result);
+    }
+  });
+
+  for (const error of loadErrors) {
+    console.error('Invalid mode definition:', error);
+  }
+  console.log(`Loaded ${customModes.length} custom mode(s)`);
+
+  // The selected mode may have been removed from the file
+  if (!getMode(currentMode)) {
+    setCurrentMode('prompt');
+  }
+
+  return { modes: customModes, errors: loadErrors };
+}
+
+/**
+ * Custom mode definitions as they would appear in modes.json
+ */
+export function getCustomModeDefinitions(): Omit<DictationMode, 'builtin'>[] {
+  return customModes.map(({ builtin: _builtin, ...definition }) => definition);
+}
+
+/**
+ * Check a list of raw mode definitions without loading them
+ */
+export function checkModeDefinitions(rawModes: any): string[] {
+  if (!Array.isArray(rawModes)) {
+    return ['Modes must be an array'];
+  }
+
+  const errors: string[] = [];
+  const seenIds = new Set(BUILTIN_MODES.map(mode => mode.id));
+  rawModes.forEach((raw, index) => {
+    const label = `mode #${index + 1}${typeof raw?.id === 'string' ? ` ("${raw.id}")` : ''}`;
+    const result = validateMode(raw, label, seenIds);
+    if (Array.isArray(result)) {
+      errors.push(...result);
+    } else {
+      seenIds.add(result.id);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Merge mode definitions into modes.json (same id replaces) and reload
+ *
+ * Nothing is written if any definition is invalid.
+ */
+export function importCustomModes(rawModes: any): string[] {
+  const errors = checkModeDefinitions(rawModes);
+  if (errors.length > 0) return errors;
+
+  let existing: any[] = [];
+  if (fs.existsSync(MODES_FILE_PATH)) {
+    try {
+      const data = JSON.parse(fs.readFileSync(MODES_FILE_PATH, 'utf-8'));
+      existing = (Array.isArray(data) ? data : data?.modes) || [];
+    } catch (err: any) {
+      return [`modes.json is not valid JSON, fix it before importing: ${err.message}`];
+    }
+  }
+
+  const importedIds = new Set(rawModes.map((raw: any) => raw.id.trim()));
+  const merged = [
+    ...existing.filter(raw => !importedIds.has(typeof raw?.id === 'string' ? raw.id.trim() : raw?.id)),
+    ...rawModes
+  ];
+
+  try {
+    const tempPath = `${MODES_FILE_PATH}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ modes: merged }, null, 2));
+    fs.renameSync(tempPath, MODES_FILE_PATH);
+  } catch (err: any) {
+    return [`Failed to write modes.json: ${err.message}`];
+  }
+
+  return loadCustomModes().errors;
+}
+
+/**
+ * All modes, built-in first
+ */
+export function listModes(): DictationMode[] {
+  return [...BUILTIN_MODES, ...customModes];
+}
+
+/**
+ * Problems found the last time modes.json was loaded
+ */
+export function getModeErrors(): string[] {
+  return [...loadErrors];
+}
+
+/**
+ * Look up a mode by id
+ */
+export function getMode(id: string): DictationMode | null {
+  return listModes().find(mode => mode.id === id) || null;
+}
+
+/**
+ * The mode currently selected
+ */
+export function getCurrentModeDefinition(): DictationMode {
+  return getMode(currentMode) || BUILTIN_MODES[0];
+}
+
+/**
+ * Switch to a mode; returns false for unknown ids
+ */
+export function selectMode(id: string): boolean {
+  if (!getMode(id)) {
+    console.error(`Unknown mode: ${id}`);
+    return false;
+  }
+  updateSettings({ mode: id });
+  return true;
+}
+
+/**
+ * Switch to the next mode in the list (wraps around)
+ */
+export function cycleMode(): DictationMode {
+  const modes = listModes();
+  const index = modes.findIndex(mode => mode.id === currentMode);
+  const next = modes[(index + 1) % modes.length];
+  updateSettings({ mode: next.id });
+  return next;
+}
+
+// Load user modes at startup
+loadCustomModes();
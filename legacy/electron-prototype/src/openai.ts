@@ -0,0 +1,181 @@
+import fs from 'fs';
+import path from 'path';
+import { TranscriptionProvider, RefineRequest, TranscriptSegment } from './providers';
+import { errorFromStatus, toAppError } from './errors';
+
+/**
+ * Connection settings for an OpenAI-compatible endpoint
+ */
+export interface OpenAICompatibleOptions {
+  id: string;
+  label: string;
+  baseUrl: string;
+  // Read on every request so a replaced key applies immediately
+  getApiKey?: () => string | undefined;
+  audioModel: string;
+  textModel: string;
+  // Self-hosted servers often run without authentication
+  requireApiKey?: boolean;
+  // Whether the server supports verbose_json (segment timestamps)
+  timestamps?: boolean;
+}
+
+/**
+ * Join the base URL and an API path without doubling slashes
+ */
+function endpoint(baseUrl: string, apiPath: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${apiPath}`;
+}
+
+/**
+ * Build request headers (Authorization only when a key is set)
+ */
+function authHeaders(apiKey?: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+/**
+ * Transcribe a WAV file via the /audio/transcriptions endpoint
+ *
+ * Returns the raw response: { text } for json, plus segments for verbose_json.
+ */
+async function requestTranscription(
+  options: OpenAICompatibleOptions,
+  audioPath: string,
+  format: 'json' | 'verbose_json'
+): Promise<any> {
+  const audioBuffer = fs.readFileSync(audioPath);
+
+  const form = new FormData();
+  form.append('file', new Blob([audioBuffer], { type: 'audio/wav' }), path.basename(audioPath));
+  form.append('model', options.audioModel);
+  form.append('response_format', format);
+  if (format === 'verbose_json') {
+    form.append('timestamp_granularities[]', 'segment');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint(options.baseUrl, 'audio/transcriptions'), {
+      method: 'POST',
+      headers: authHeaders(options.getApiKey?.()),
+      body: form
+    });
+  } catch (error) {
+    console.error(`${options.label} API Error:`, error);
+    throw toAppError(error, options.label);
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    console.error(`${options.label} transcription failed:`, response.status, body);
+    throw errorFromStatus(options.label, response.status, body, response.headers.get('retry-after'));
+  }
+
+  return response.json();
+}
+
+/**
+ * Transcribe a WAV file to plain text
+ */
+async function transcribeAudio(options: OpenAICompatibleOptions, audioPath: string): Promise<string> {
+  const data = await requestTranscription(options, audioPath, 'json');
+  return typeof data.text === 'string' ? data.text.trim() : '';
+}
+
+/**
+ * Transcribe a WAV file into timed segments
+ */
+async function transcribeSegments(options: OpenAICompatibleOptions, audioPath: string): Promise<TranscriptSegment[]> {
+  const data = await requestTranscription(options, audioPath, 'verbose_json');
+
+  if (!Array.isArray(data.segments)) {
+    // Some servers ignore verbose_json; keep the text as one segment
+    const text = typeof data.text === 'string' ? data.text.trim() : '';
+    return text ? [{ start: 0, end: Number(data.duration) || 0, text }] : [];
+  }
+
+  return data.segments
+    .filter((segment: any) => typeof segment.text === 'string' && segment.text.trim())
+    .map((segment: any) => ({
+      start: Number(segment.start) || 0,
+      end: Number(segment.end) || 0,
+      text: segment.text.trim()
+    }));
+}
+
+/**
+ * Rewrite text via the /chat/completions endpoint
+ */
+async function refineText(options: OpenAICompatibleOptions, request: RefineRequest): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(endpoint(options.baseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers: {
+        ...authHeaders(options.getApiKey?.()),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: request.model || options.textModel,
+        temperature: request.temperature ?? 0.3,
+        messages: [
+          { role: 'system', content: request.instruction },
+          { role: 'user', content: `${request.prompt}\n\n${request.text}` }
+        ]
+      })
+    });
+  } catch (error) {
+    console.error(`${options.label} API Error:`, error);
+    throw toAppError(error, options.label);
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    console.error(`${options.label} completion failed:`, response.status, body);
+    throw errorFromStatus(options.label, response.status, body, response.headers.get('retry-after'));
+  }
+
+  const data: any = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+  return typeof content === 'string' ? content.trim() : '';
+}
+
+/**
+ * Check a key by listing models; returns an error message or null
+ */
+async function validateKey(options: OpenAICompatibleOptions, apiKey: string): Promise<string | null> {
+  try {
+    const response = await fetch(endpoint(options.baseUrl, 'models'), {
+      headers: authHeaders(apiKey)
+    });
+    if (response.ok) return null;
+    if (response.status === 401 || response.status === 403) {
+      return `${options.label} rejected the API key`;
+    }
+    return `${options.label} returned HTTP ${response.status}`;
+  } catch (error: any) {
+    return `Could not reach ${options.label}: ${error.message}`;
+  }
+}
+
+/**
+ * Create a provider for OpenAI, Groq or any server speaking the same protocol
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): TranscriptionProvider {
+  return {
+    id: options.id,
+    label: options.label,
+    capabilities: { transcribe: true, refine: true, multimodal: false, timestamps: options.timestamps !== false },
+
+    isConfigured: () => Boolean(options.baseUrl) && (options.requireApiKey === false || Boolean(options.getApiKey?.())),
+
+    validateApiKey: (apiKey: string) => validateKey(options, apiKey),
+
+    transcribe: (audioPath: string) => transcribeAudio(options, audioPath),
+
+    transcribeSegments: (audioPath: string) => transcribeSegments(options, audioPath),
+
+    refine: (request: RefineRequest) => refineText(options, request)
+  };
+}
@@ -0,0 +1,303 @@
+import { app } from 'electron';
+import { execFile, spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { pasteStrategyId } from './state';
+
+export type SessionType = 'windows' | 'mac' | 'x11' | 'wayland';
+
+/**
+ * A way of sending keys to the focused window
+ */
+export interface PasteStrategy {
+  id: string;
+  label: string;
+  // Sessions the strategy works in
+  sessions: SessionType[];
+  // Commands that must be installed (Linux only)
+  requires: string[];
+  // Send the copy (c) or paste (v) shortcut; terminals need ctrl+shift on Linux
+  sendShortcut(key: 'c' | 'v', terminal: boolean): Promise<void>;
+  // Type text key by key, for apps that block paste
+  typeText(text: string): Promise<void>;
+  // Put text on the clipboard with a native tool (the Electron clipboard is used otherwise)
+  writeClipboard?(text: string): Promise<void>;
+}
+
+/**
+ * Availability summary sent to the renderer
+ */
+export interface PasteStrategyInfo {
+  id: string;
+  label: string;
+  available: boolean;
+  // Why the strategy cannot be used here
+  reason: string;
+  active: boolean;
+}
+
+// Delay between typed characters; some apps drop keys sent faster
+const TYPE_DELAY_MS = 12;
+
+// Linux terminals paste with ctrl+shift+v; whole process names only, which ps cuts
+// to 15 characters (gnome-terminal-server becomes gnome-terminal-)
+const TERMINAL_APP = new RegExp('^(' + [
+  'gnome-terminal-(server)?', 'xfce4-terminal', 'mate-terminal', 'lxterminal', 'qterminal', 'kgx',
+  'konsole', 'u?xterm', 'alacritty', 'kitty', 'wezterm(-gui)?', 'tilix', 'terminator',
+  'foot(client)?', 'u?rxvt', 'ghostty', 'terminology', 'st'
+].join('|') + ')$', 'i');
+
+const strategies = new Map<string, PasteStrategy>();
+
+/**
+ * Run a command without a shell, optionally writing input to stdin
+ */
+function runCommand(file: string, args: string[], input?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(file, args, { timeout: 30000, windowsHide: true }, (err, _stdout, stderr) => {
+      if (err) {
+        reject(new Error(`${file} failed: ${stderr.trim() || err.message}`));
+      } else {
+        resolve();
+      }
+    });
+    if (input !== undefined) {
+      child.stdin?.end(input);
+    }
+  });
+}
+
+/**
+ * Check whether a command is on PATH
+ */
+function hasCommand(command: string): boolean {
+  return (process.env.PATH || '').split(path.delimiter).filter(Boolean)
+    .some(dir => fs.existsSync(path.join(dir, command)));
+}
+
+/**
+ * Detect the platform and, on Linux, the display server
+ */
+export function getSessionType(): SessionType {
+  const platform = os.platform();
+  if (platform === 'win32') return 'windows';
+  if (platform === 'darwin') return 'mac';
+
+  const sessionType = (process.env.XDG_SESSION_TYPE || '').toLowerCase();
+  if (sessionType === 'wayland' || (!sessionType && process.env.WAYLAND_DISPLAY)) {
+    return 'wayland';
+  }
+  return 'x11';
+}
+
+/**
+ * Whether an app name belongs to a terminal emulator
+ */
+export function isTerminalApp(appName: string): boolean {
+  return TERMINAL_APP.test(appName.trim());
+}
+
+/**
+ * Escape text for WScript SendKeys, where +^%~(){}[] are special
+ */
+function escapeSendKeys(text: string): string {
+  return text
+    .replace(/\r/g, '')
+    .replace(/[+^%~(){}[\]]/g, char => `{${char}}`)
+    .replace(/\n/g, '{ENTER}');
+}
+
+/**
+ * Run a SendKeys sequence through a temporary VBScript (reliable on Windows)
+ */
+async function runSendKeys(name: string, keys: string): Promise<void> {
+  const vbsScript = `
+Set WshShell = CreateObject("WScript.Shell")
+WScript.Sleep 200
+WshShell.SendKeys "${keys.replace(/"/g, '""')}"
+`;
+  const vbsPath = path.join(app.getPath('userData'), `${name}.vbs`);
+  // cscript reads files without a BOM in the ANSI code page, which garbles accented text
+  fs.writeFileSync(vbsPath, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(vbsScript, 'utf16le')]));
+  try {
+    await runCommand('cscript', ['//nologo', vbsPath]);
+  } finally {
+    // Typed text must not stay on disk
+    fs.rmSync(vbsPath, { force: true });
+  }
+}
+
+/**
+ * Set the Wayland clipboard with wl-copy when it is installed
+ *
+ * wl-copy forks to serve the clipboard, so it is not waited on beyond startup.
+ */
+function writeWaylandClipboard(text: string): Promise<void> {
+  if (!hasCommand('wl-copy')) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const child = spawn('wl-copy', [], { stdio: ['pipe', 'ignore', 'ignore'] });
+    child.on('error', reject);
+    child.on('spawn', () => {
+      child.stdin?.end(text);
+      resolve();
+    });
+  });
+}
+
+// ydotool uses Linux input event codes
+const YDOTOOL_KEYS = { ctrl: 29, shift: 42, c: 46, v: 47 };
+
+/**
+ * Register a strategy (replaces any strategy with the same id)
+ */
+export function registerPasteStrategy(strategy: PasteStrategy) {
+  strategies.set(strategy.id, strategy);
+}
+
+/**
+ * Look up a registered strategy by id
+ */
+export function getPasteStrategy(id: string): PasteStrategy | null {
+  return strategies.get(id) || null;
+}
+
+/**
+ * Why a strategy cannot be used in this session ('' when it can)
+ */
+function unavailableReason(strategy: PasteStrategy, session: SessionType): string {
+  if (!strategy.sessions.includes(session)) {
+    return `Does not work in ${session} sessions`;
+  }
+  const missing = strategy.requires.filter(command => !hasCommand(command));
+  return missing.length > 0 ? `Install ${missing.join(', ')}` : '';
+}
+
+/**
+ * Pick the strategy for this session when none is chosen
+ *
+ * wtype needs the virtual keyboard protocol, which GNOME lacks, so ydotool
+ * (uinput) comes first there. xdotool still reaches XWayland windows.
+ */
+function autoStrategyIds(session: SessionType): string[] {
+  switch (session) {
+    case 'windows':
+      return ['sendkeys'];
+    case 'mac':
+      return ['applescript'];
+    case 'wayland':
+      return /gnome/i.test(process.env.XDG_CURRENT_DESKTOP || '')
+        ? ['ydotool', 'wtype', 'xdotool']
+        : ['wtype', 'ydotool', 'xdotool'];
+    default:
+      return ['xdotool'];
+  }
+}
+
+/**
+ * Get the strategy selected in settings, or the best available one
+ */
+export function resolvePasteStrategy(): PasteStrategy | null {
+  const session = getSessionType();
+
+  if (pasteStrategyId !== 'auto') {
+    const selected = getPasteStrategy(pasteStrategyId);
+    if (selected && !unavailableReason(selected, session)) {
+      return selected;
+    }
+    console.warn(`Paste strategy ${pasteStrategyId} is not available, choosing automatically`);
+  }
+
+  for (const id of autoStrategyIds(session)) {
+    const strategy = getPasteStrategy(id);
+    if (strategy && !unavailableReason(strategy, session)) {
+      return strategy;
+    }
+  }
+  return null;
+}
+
+/**
+ * List registered strategies with their availability in this session
+ */
+export function listPasteStrategies(): PasteStrategyInfo[] {
+  const session = getSessionType();
+  const active = resolvePasteStrategy();
+
+  return Array.from(strategies.values()).map(strategy => {
+    const reason = unavailableReason(strategy, session);
+    return {
+      id: strategy.id,
+      label: strategy.label,
+      available: reason === '',
+      reason,
+      active: active?.id === strategy.id
+    };
+  });
+}
+
+// Built-in strategies
+registerPasteStrategy({
+  id: 'sendkeys',
+  label: 'Windows SendKeys',
+  sessions: ['windows'],
+  requires: [],
+  sendShortcut: (key) => runSendKeys(key === 'v' ? 'paste' : 'copy', `^${key}`),
+  typeText: (text) => runSendKeys('type', escapeSendKeys(text))
+});
+
+registerPasteStrategy({
+  id: 'applescript',
+  label: 'AppleScript (System Events)',
+  sessions: ['mac'],
+  requires: [],
+  sendShortcut: (key) => runCommand('osascript', [
+    '-e', `tell application "System Events" to keystroke "${key}" using command down`
+  ]),
+  // Text is passed as an argument so it needs no AppleScript escaping
+  typeText: (text) => runCommand('osascript', [
+    '-e', 'on run argv',
+    '-e', 'tell application "System Events" to keystroke (item 1 of argv)',
+    '-e', 'end run',
+    text
+  ])
+});
+
+registerPasteStrategy({
+  id: 'xdotool',
+  label: 'xdotool (X11)',
+  sessions: ['x11', 'wayland'],
+  requires: ['xdotool'],
+  sendShortcut: (key, terminal) => runCommand('xdotool', ['key', '--clearmodifiers', terminal ? `ctrl+shift+${key}` : `ctrl+${key}`]),
+  typeText: (text) => runCommand('xdotool', ['type', '--clearmodifiers', '--delay', String(TYPE_DELAY_MS), '--file', '-'], text)
+});
+
+registerPasteStrategy({
+  id: 'wtype',
+  label: 'wtype (Wayland)',
+  sessions: ['wayland'],
+  requires: ['wtype'],
+  sendShortcut: (key, terminal) => runCommand('wtype', terminal
+    ? ['-M', 'ctrl', '-M', 'shift', '-k', key, '-m', 'shift', '-m', 'ctrl']
+    : ['-M', 'ctrl', '-k', key, '-m', 'ctrl']),
+  typeText: (text) => runCommand('wtype', ['-d', String(TYPE_DELAY_MS), '-'], text),
+  writeClipboard: writeWaylandClipboard
+});
+
+registerPasteStrategy({
+  id: 'ydotool',
+  label: 'ydotool (any session, needs ydotoold)',
+  sessions: ['wayland', 'x11'],
+  requires: ['ydotool'],
+  sendShortcut: (key, terminal) => {
+    const { ctrl, shift } = YDOTOOL_KEYS;
+    const code = YDOTOOL_KEYS[key];
+    const events = terminal
+      ? [`${ctrl}:1`, `${shift}:1`, `${code}:1`, `${code}:0`, `${shift}:0`, `${ctrl}:0`]
+      : [`${ctrl}:1`, `${code}:1`, `${code}:0`, `${ctrl}:0`];
+    return runCommand('ydotool', ['key', ...events]);
+  },
+  typeText: (text) => runCommand('ydotool', ['type', '--key-delay', String(TYPE_DELAY_MS), '--file', '-'], text),
+  writeClipboard: writeWaylandClipboard
+});
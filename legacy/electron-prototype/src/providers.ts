@@ -0,0 +1,192 @@
+import { activeProviderId, localCloudFallback } from './state';
+import {
+  OPENAI_BASE_URL, OPENAI_AUDIO_MODEL, OPENAI_TEXT_MODEL,
+  GROQ_BASE_URL, GROQ_AUDIO_MODEL, GROQ_TEXT_MODEL
+} from './config';
+import { getApiKey } from './secrets';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai';
+import { createLocalWhisperProvider } from './whisper';
+import { VideoFrame } from './frames';
+
+/**
+ * What a provider can do with a recording
+ */
+export interface ProviderCapabilities {
+  // Speech-to-text on a WAV file
+  transcribe: boolean;
+  // Text-to-text rewrite with a system instruction
+  refine: boolean;
+  // Audio, video and frames sent together in a single request
+  multimodal: boolean;
+  // Transcripts with start and end times for each segment
+  timestamps: boolean;
+}
+
+/**
+ * Part of a transcript with its position in the audio (seconds)
+ */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Recorded media handed to a provider
+ */
+export interface MediaInput {
+  audioPath?: string;
+  videoPath?: string;
+  videoFrames?: VideoFrame[];
+}
+
+/**
+ * Text rewrite request
+ */
+export interface RefineRequest {
+  instruction: string;
+  prompt: string;
+  text: string;
+  temperature?: number;
+  model?: string;
+}
+
+/**
+ * Multimodal request (instruction + prompt + media in one call)
+ */
+export interface GenerateRequest {
+  instruction: string;
+  prompt: string;
+  media: MediaInput;
+  temperature?: number;
+  model?: string;
+}
+
+/**
+ * Progress callback (percent in 0-100)
+ */
+export type ProgressCallback = (percent: number) => void;
+
+/**
+ * Common interface implemented by every transcription backend
+ */
+export interface TranscriptionProvider {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  isConfigured(): boolean;
+  transcribe(audioPath: string, onProgress?: ProgressCallback): Promise<string>;
+  transcribeSegments?(audioPath: string, onProgress?: ProgressCallback): Promise<TranscriptSegment[]>;
+  refine(request: RefineRequest): Promise<string>;
+  generate?(request: GenerateRequest): Promise<string>;
+  // Check a key against the service; returns an error message or null
+  validateApiKey?(apiKey: string): Promise<string | null>;
+}
+
+/**
+ * Summary sent to the renderer (never includes credentials)
+ */
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  configured: boolean;
+  active: boolean;
+}
+
+const providers = new Map<string, TranscriptionProvider>();
+
+/**
+ * Register a provider (replaces any provider with the same id)
+ */
+export function registerProvider(provider: TranscriptionProvider) {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Look up a registered provider by id
+ */
+export function getProvider(id: string): TranscriptionProvider | null {
+  return providers.get(id) || null;
+}
+
+/**
+ * Check whether a provider id is registered
+ */
+export function hasProvider(id: string): boolean {
+  return providers.has(id);
+}
+
+/**
+ * Get the provider selected in settings
+ */
+export function getActiveProvider(): TranscriptionProvider | null {
+  return getProvider(activeProviderId);
+}
+
+/**
+ * Get the provider to use for the next recording
+ *
+ * Falls back to the local provider, then to any configured provider, when the
+ * selected one is missing its key, binary or model. A missing local model only
+ * falls back to the cloud when localCloudFallback allows it, so audio the user
+ * meant to keep on this machine is never uploaded by surprise.
+ */
+export function resolveProvider(): TranscriptionProvider | null {
+  const active = getActiveProvider();
+  if (active && active.isConfigured()) {
+    return active;
+  }
+
+  if (activeProviderId === 'local' && !localCloudFallback) {
+    console.warn('Local Whisper is not available and cloud fallback is off');
+    return null;
+  }
+
+  const candidates = [getProvider('local'), ...providers.values()];
+  const fallback = candidates.find(provider => provider && provider.isConfigured()) || null;
+
+  if (fallback) {
+    console.warn(`Provider ${activeProviderId} is not available, falling back to ${fallback.id}`);
+  }
+  return fallback;
+}
+
+/**
+ * List registered providers for the renderer
+ */
+export function listProviders(): ProviderInfo[] {
+  return Array.from(providers.values()).map(provider => ({
+    id: provider.id,
+    label: provider.label,
+    capabilities: provider.capabilities,
+    configured: provider.isConfigured(),
+    active: provider.id === activeProviderId
+  }));
+}
+
+// Built-in providers
+registerProvider(createGeminiProvider());
+
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  baseUrl: OPENAI_BASE_URL,
+  getApiKey: () => getApiKey('openai'),
+  audioModel: OPENAI_AUDIO_MODEL,
+  textModel: OPENAI_TEXT_MODEL,
+  // Custom base URLs point at self-hosted servers that may not need a key
+  requireApiKey: OPENAI_BASE_URL.startsWith('https://api.openai.com')
+}));
+
+registerProvider(createOpenAICompatibleProvider({
+  id: 'groq',
+  label: 'Groq',
+  baseUrl: GROQ_BASE_URL,
+  getApiKey: () => getApiKey('groq'),
+  audioModel: GROQ_AUDIO_MODEL,
+  textModel: GROQ_TEXT_MODEL
+}));
+
+registerProvider(createLocalWhisperProvider());
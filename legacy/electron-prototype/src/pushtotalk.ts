@@ -0,0 +1,78 @@
+// Wait for the first auto-repeat (OS initial delay is typically 250-600 ms)
+const INITIAL_REPEAT_TIMEOUT_MS = 700;
+// Gap between repeats that means the key was released (repeat rate is ~30 ms)
+const REPEAT_GAP_TIMEOUT_MS = 150;
+
+export interface PushToTalkHandlers {
+  onPress: () => void;
+  // heldMs is the time between the first and the last key event;
+  // repeated is false when no auto-repeat arrived (a tap, or an OS that does not repeat)
+  onRelease: (heldMs: number, repeated: boolean) => void;
+}
+
+export interface PushToTalkTracker {
+  keyEvent(): void;
+  isHeld(): boolean;
+  reset(): void;
+}
+
+/**
+ * Create a tracker that turns repeated shortcut events into press/release
+ *
+ * Electron's globalShortcut only reports key presses, not releases. While a
+ * shortcut is held the OS auto-repeats it, so the key counts as released once
+ * the repeats stop. Holds shorter than the OS initial repeat delay produce a
+ * single event and are reported with heldMs = 0 and repeated = false.
+ *
+ * macOS (and some Linux setups) never auto-repeat global shortcuts, so there
+ * every hold looks like a tap; callers must handle that case.
+ */
+export function createPushToTalkTracker(handlers: PushToTalkHandlers): PushToTalkTracker {
+  let held = false;
+  let repeating = false;
+  let pressedAt = 0;
+  let lastEventAt = 0;
+  let releaseTimer: NodeJS.Timeout | null = null;
+
+  const clearTimer = () => {
+    if (releaseTimer) {
+      clearTimeout(releaseTimer);
+      releaseTimer = null;
+    }
+  };
+
+  const release = () => {
+    const repeated = repeating;
+    releaseTimer = null;
+    held = false;
+    repeating = false;
+    handlers.onRelease(lastEventAt - pressedAt, repeated);
+  };
+
+  return {
+    keyEvent: () => {
+      const now = Date.now();
+      clearTimer();
+
+      if (!held) {
+        held = true;
+        repeating = false;
+        pressedAt = now;
+        handlers.onPress();
+      } else {
+        repeating = true;
+      }
+
+      lastEventAt = now;
+      releaseTimer = setTimeout(release, repeating ? REPEAT_GAP_TIMEOUT_MS : INITIAL_REPEAT_TIMEOUT_MS);
+    },
+
+    isHeld: () => held,
+
+    reset: () => {
+      clearTimer();
+      held = false;
+      repeating = false;
+    }
+  };
+}
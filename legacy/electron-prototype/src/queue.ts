@@ -0,0 +1,184 @@
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ErrorReport } from './errors';
+
+/**
+ * A recording whose processing failed, kept until it can be retried
+ */
+export interface QueuedRecording {
+  id: string;
+  timestamp: number;
+  mode: string;
+  // Selected text for a rewrite (null for dictation)
+  selection: string | null;
+  // Recording length in seconds
+  duration: number;
+  targetApp: string | null;
+  // WAV file name inside the queue directory
+  audioFile: string;
+  attempts: number;
+  // Earliest time of the next automatic retry (0 waits for a manual retry)
+  nextAttemptAt: number;
+  lastError: ErrorReport;
+}
+
+const QUEUE_DIR = path.join(app.getPath('userData'), 'queue');
+const QUEUE_FILE_PATH = path.join(QUEUE_DIR, 'queue.json');
+
+let items: QueuedRecording[] | null = null;
+const changeListeners: Array<() => void> = [];
+
+/**
+ * Load the queue from disk on first use (oldest first)
+ */
+function loadItems(): QueuedRecording[] {
+  if (items) return items;
+
+  items = [];
+  try {
+    if (fs.existsSync(QUEUE_FILE_PATH)) {
+      const data = JSON.parse(fs.readFileSync(QUEUE_FILE_PATH, 'utf-8'));
+      if (Array.isArray(data)) {
+        // Drop entries whose audio was deleted outside the app
+        items = data.filter(item =>
+          item && typeof item.id === 'string' && typeof item.audioFile === 'string'
+          && fs.existsSync(path.join(QUEUE_DIR, item.audioFile))
+        );
+      }
+    }
+  } catch (err) {
+    // Keep the unreadable file for inspection instead of overwriting it
+    console.error('Failed to load retry queue, starting empty:', err);
+    try {
+      fs.renameSync(QUEUE_FILE_PATH, `${QUEUE_FILE_PATH}.corrupt`);
+    } catch (renameErr) {
+      console.warn('Could not move corrupt queue file:', renameErr);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Write the queue to disk atomically
+ */
+function saveItems() {
+  if (!items) return;
+  try {
+    fs.mkdirSync(QUEUE_DIR, { recursive: true });
+    const tempPath = `${QUEUE_FILE_PATH}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(items, null, 2));
+    fs.renameSync(tempPath, QUEUE_FILE_PATH);
+  } catch (err) {
+    console.error('Failed to save retry queue:', err);
+  }
+}
+
+/**
+ * Notify listeners (tray menu, renderer) that the queue changed
+ */
+function notifyChange() {
+  for (const listener of changeListeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.error('Queue change listener failed:', err);
+    }
+  }
+}
+
+/**
+ * Subscribe to queue changes
+ */
+export function onQueueChanged(listener: () => void) {
+  changeListeners.push(listener);
+}
+
+/**
+ * Move a failed recording into the queue directory and add it to the queue
+ */
+export function enqueueRecording(
+  audioPath: string,
+  entry: Omit<QueuedRecording, 'id' | 'timestamp' | 'audioFile' | 'attempts'>
+): QueuedRecording {
+  const list = loadItems();
+  const id = crypto.randomUUID();
+  const audioFile = `${id}.wav`;
+  const target = path.join(QUEUE_DIR, audioFile);
+
+  fs.mkdirSync(QUEUE_DIR, { recursive: true });
+  try {
+    fs.renameSync(audioPath, target);
+  } catch {
+    // The temp file may be on another volume
+    fs.copyFileSync(audioPath, target);
+  }
+
+  const queued: QueuedRecording = {
+    id,
+    timestamp: Date.now(),
+    audioFile,
+    attempts: 1,
+    ...entry
+  };
+
+  list.push(queued);
+  saveItems();
+  notifyChange();
+  return queued;
+}
+
+/**
+ * List queued recordings, oldest first
+ */
+export function listQueue(): QueuedRecording[] {
+  return [...loadItems()];
+}
+
+/**
+ * Look up a queued recording by id
+ */
+export function getQueuedRecording(id: string): QueuedRecording | null {
+  return loadItems().find(item => item.id === id) || null;
+}
+
+/**
+ * Full path of a queued recording's audio
+ */
+export function getQueuedAudioPath(item: QueuedRecording): string {
+  return path.join(QUEUE_DIR, item.audioFile);
+}
+
+/**
+ * Record the outcome of a failed retry
+ */
+export function updateQueuedRecording(id: string, changes: Partial<Pick<QueuedRecording, 'attempts' | 'nextAttemptAt' | 'lastError'>>) {
+  const item = getQueuedRecording(id);
+  if (!item) return;
+
+  Object.assign(item, changes);
+  saveItems();
+  notifyChange();
+}
+
+/**
+ * Remove a recording and its audio; returns false if it did not exist
+ */
+export function removeQueuedRecording(id: string): boolean {
+  const list = loadItems();
+  const index = list.findIndex(item => item.id === id);
+  if (index === -1) return false;
+
+  const [removed] = list.splice(index, 1);
+  try {
+    fs.unlinkSync(getQueuedAudioPath(removed));
+  } catch (err) {
+    console.warn('Could not delete queued audio:', err);
+  }
+
+  saveItems();
+  notifyChange();
+  return true;
+}
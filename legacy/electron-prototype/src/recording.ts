@@ -1,20 +1,80 @@
 import { spawn } from 'child_process';
 import fs from 'fs';
 import {
-  mainWindow, isRecording, soxProcess, includeVideo,
-  recordedVideoFrames, videoRecordingConfirmed,
+  mainWindow, isRecording, soxProcess, includeVideo, streamingEnabled, pushToTalkEnabled,
+  autoStopEnabled, autoStopSilenceSeconds, discardSilentRecordings, maxRecordingMinutes,
+  recordedVideoFrames, videoRecordingConfirmed, currentMode, recordingTarget, captureSources,
   setIsRecording, setSoxProcess, clearVideoFrames,
-  setVideoRecordingConfirmed
+  setVideoRecordingConfirmed, setRecordingTarget, setRecordingCaptureSource
 } from './state';
-import { AUDIO_FILE_PATH, VIDEO_FILE_PATH, soxExe, soxDir, isWindows } from './config';
+import {
+  AUDIO_FILE_PATH, VIDEO_FILE_PATH, soxExe, soxDir, isWindows, PUSH_TO_TALK_MIN_HOLD_MS
+} from './config';
 import { getSoxAudioInputArgs } from './audio';
 import {
-  updateStatus, playSound, showTranscriptionResult,
-  showRecordingIndicator, hideRecordingIndicator, updateTrayIcon
+  updateStatus, playSound, showTranscriptionResult, showWarning, showError, showInfo,
+  showRecordingIndicator, hideRecordingIndicator, updateTrayIcon, updateRecordingLevel
 } from './windows';
-import { processAudioWithGemini, processVideoWithGemini } from './gemini';
-import { pasteTextToActiveWindow } from './clipboard';
+import { processRecording, processTranscript, processRewrite, TranscriptionResult } from './transcription';
+import {
+  startStreamingSession, pushStreamingAudio, isStreamingActive,
+  finishStreamingSession, cancelStreamingSession
+} from './streaming';
+import { createWavWriter, WavWriter, BYTES_PER_SECOND } from './wav';
+import { getActiveWindowInfo, hasFocusChanged, describeWindow } from './focus';
+import { addHistoryEntry } from './history';
+import { getCurrentModeDefinition } from './modes';
+import { applyReplacements, applySegmentReplacements } from './dictionary';
+import { pasteTextToActiveWindow, copySelectedText } from './clipboard';
 import { pauseMedia, resumeMedia } from './media';
+import { createPushToTalkTracker } from './pushtotalk';
+import { createVoiceActivityDetector, VoiceActivityDetector } from './vad';
+import { createLevelMeter, LevelMeter } from './meter';
+import { AppError, toAppError } from './errors';
+import { queueFailedRecording } from './retry';
+import { CaptureSource, findCaptureSource } from './capture';
+
+// Writer for the WAV file assembled from sox's stdout
+let wavWriter: WavWriter | null = null;
+
+// Whether the current recording captures video (fixed when recording starts)
+let recordingWithVideo = false;
+
+// Selected text being rewritten (null for normal dictation)
+let rewriteSelection: string | null = null;
+
+// Speech detection on the recorded stream
+let vad: VoiceActivityDetector | null = null;
+
+// Input level shown in the recording indicator
+let meter: LevelMeter | null = null;
+
+// Stops the recording when the maximum duration is reached
+let maxDurationTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Clear the maximum duration timer
+ */
+function clearMaxDurationTimer() {
+  if (maxDurationTimer) {
+    clearTimeout(maxDurationTimer);
+    maxDurationTimer = null;
+  }
+}
+
+/**
+ * Finalize the WAV file header and close it
+ */
+function closeWavWriter() {
+  if (wavWriter) {
+    try {
+      wavWriter.close();
+    } catch (err) {
+      console.warn('Failed to finalize WAV file:', err);
+    }
+    wavWriter = null;
+  }
+}
 
 /**
  * Safely delete a file with retries (handles Windows file locking)
@@ -62,16 +122,113 @@ export async function toggleRecording() {
   }
 }
 
+/**
+ * Capture the current selection and record a spoken instruction for it
+ */
+export async function startRewriteRecording() {
+  if (isRecording) return;
+
+  const selection = await copySelectedText();
+  if (!selection.trim()) {
+    console.warn('No text selected; rewrite cancelled');
+    playSound(400, 200);
+    return;
+  }
+
+  await startRecording(selection);
+}
+
+// Pending start in push-to-talk mode (release may arrive before recording begins)
+let pushToTalkStart: Promise<void> | null = null;
+// Whether the OS has ever auto-repeated the hotkey; without repeats a release cannot be seen
+let keyRepeatSeen = false;
+// Recording kept running because the release could not be detected; the next press stops it
+let pushToTalkToggled = false;
+let toggleNoticeShown = false;
+
+// Tracks the held recording hotkey in push-to-talk mode
+const pushToTalk = createPushToTalkTracker({
+  onPress: () => {
+    if (!isRecording) {
+      pushToTalkToggled = false;
+      pushToTalkStart = startRecording();
+    } else if (pushToTalkToggled) {
+      pushToTalkToggled = false;
+      stopRecording().catch(err => console.error('Failed to stop recording:', err));
+    }
+  },
+  onRelease: async (heldMs, repeated) => {
+    await pushToTalkStart;
+    pushToTalkStart = null;
+    if (!isRecording) return;
+
+    keyRepeatSeen = keyRepeatSeen || repeated;
+    if (!keyRepeatSeen) {
+      // No auto-repeat on this system (e.g. macOS): behave like toggle mode
+      console.log('Push-to-talk: no key repeat detected; press the hotkey again to stop');
+      if (!pushToTalkToggled && !toggleNoticeShown) {
+        toggleNoticeShown = true;
+        showInfo('Key release cannot be detected on this system; press the hotkey again to stop recording');
+      }
+      pushToTalkToggled = true;
+      return;
+    }
+
+    if (heldMs < PUSH_TO_TALK_MIN_HOLD_MS) {
+      console.log(`Push-to-talk held for ${heldMs}ms; discarding accidental tap`);
+      await cancelRecording();
+    } else {
+      await stopRecording();
+    }
+  }
+});
+
+/**
+ * Handle the recording hotkey (toggle or push-to-talk depending on settings)
+ */
+export async function handleRecordingHotkey() {
+  if (pushToTalkEnabled) {
+    pushToTalk.keyEvent();
+    return;
+  }
+  await toggleRecording();
+}
+
 /**
  * Start recording audio (and optionally video)
+ *
+ * When a selection is given, the recording is a spoken rewrite instruction.
  */
-export async function startRecording() {
+export async function startRecording(selection: string | null = null) {
   console.log('Starting recording...');
-  console.log('Include video:', includeVideo);
+  rewriteSelection = selection;
+  recordingWithVideo = selection === null && includeVideo && getCurrentModeDefinition().allowVideo;
+  console.log('Include video:', recordingWithVideo);
+
+  // Remember the target window before the indicator takes focus
+  const targetPromise = getActiveWindowInfo();
 
   // Pause any media playing in the background
   await pauseMedia();
 
+  setRecordingTarget(await targetPromise);
+  console.log('Recording target:', recordingTarget ? recordingTarget.app : '(unknown)');
+
+  // Capture only the source chosen for this mode; never fall back to the whole screen
+  let captureSource: CaptureSource | null = null;
+  const savedSource = recordingWithVideo ? captureSources[currentMode] || null : null;
+  if (savedSource) {
+    captureSource = await findCaptureSource(savedSource).catch((err) => {
+      console.error('Failed to list capture sources:', err);
+      return null;
+    });
+    if (!captureSource) {
+      showWarning(`${savedSource.name} is not available to capture; recording without screen context`);
+      recordingWithVideo = false;
+    }
+  }
+  setRecordingCaptureSource(captureSource);
+
   setIsRecording(true);
   clearVideoFrames();
   setVideoRecordingConfirmed(false);
@@ -79,9 +236,11 @@ export async function startRecording() {
   playSound(800, 100);
 
   // Start video recording from renderer (before hiding main window)
-  if (includeVideo && mainWindow) {
-    console.log('Starting video recording from renderer');
-    mainWindow.webContents.send('start-video-recording');
+  if (recordingWithVideo && mainWindow) {
+    console.log('Starting video recording from renderer:', captureSource ? captureSource.name : '(default screen)');
+    mainWindow.webContents.send('start-video-recording', captureSource
+      ? { sourceId: captureSource.id, type: captureSource.type, region: captureSource.region || null }
+      : null);
   }
 
   // Show the centered recording indicator
@@ -90,16 +249,21 @@ export async function startRecording() {
   // Update tray icon to red
   updateTrayIcon(true);
 
-  // Start sox audio recording
+  // Start sox audio recording (raw PCM on stdout, written to WAV here)
   try {
-    const audioInputArgs = await getSoxAudioInputArgs();
+    const audioInput = await getSoxAudioInputArgs();
+    if (audioInput.warning) {
+      showWarning(audioInput.warning);
+    }
     const soxArgs = [
-      ...audioInputArgs,
+      ...audioInput.args,
       '-r', '16000',
       '-c', '1',
       '-b', '16',
       '-e', 'signed-integer',
-      AUDIO_FILE_PATH
+      '-L',
+      '-t', 'raw',
+      '-'
     ];
 
     console.log('Starting sox with args:', soxArgs.join(' '));
@@ -109,17 +273,61 @@ export async function startRecording() {
       spawnOptions.cwd = soxDir;
     }
 
+    wavWriter = createWavWriter(AUDIO_FILE_PATH);
+
+    meter = createLevelMeter(updateRecordingLevel);
+
+    // In push-to-talk mode the key release ends the recording instead
+    const autoStop = autoStopEnabled && !pushToTalkEnabled;
+    vad = createVoiceActivityDetector({
+      silenceMs: autoStopSilenceSeconds * 1000,
+      onSilence: autoStop ? () => {
+        if (!isRecording) return;
+        console.log(`No speech for ${autoStopSilenceSeconds}s; stopping recording`);
+        stopRecording().catch(err => console.error('Failed to stop recording:', err));
+      } : undefined
+    });
+
+    // Partial transcripts while recording (video recordings are processed as a whole)
+    if (streamingEnabled && !recordingWithVideo && rewriteSelection === null) {
+      startStreamingSession();
+    }
+
     const proc = spawn(soxExe, soxArgs, spawnOptions);
     setSoxProcess(proc);
 
+    clearMaxDurationTimer();
+    if (maxRecordingMinutes > 0) {
+      maxDurationTimer = setTimeout(() => {
+        maxDurationTimer = null;
+        if (!isRecording) return;
+        showWarning(`Recording stopped after reaching the ${maxRecordingMinutes} minute limit`);
+        stopRecording().catch(err => console.error('Failed to stop recording:', err));
+      }, maxRecordingMinutes * 60 * 1000);
+    }
+
+    proc.stdout?.on('data', (data: Buffer) => {
+      wavWriter?.write(data);
+      pushStreamingAudio(data);
+      vad?.push(data);
+      meter?.push(data);
+    });
+
+    // Last stderr output explains why sox failed
+    let soxStderr = '';
     proc.stderr?.on('data', (data) => {
       console.log('sox stderr:', data.toString());
+      soxStderr = (soxStderr + data.toString()).slice(-500);
     });
 
     proc.on('error', (err) => {
       console.error('sox error:', err);
+      showError(new AppError('sox', 'SoX', err.message));
+      clearMaxDurationTimer();
       setIsRecording(false);
       setSoxProcess(null);
+      closeWavWriter();
+      cancelStreamingSession();
       hideRecordingIndicator();
       updateStatus('ready');
     });
@@ -128,16 +336,24 @@ export async function startRecording() {
       console.log('sox process exited with code:', code);
       if (code !== 0 && code !== null && isRecording) {
         console.error('sox exited with error code:', code);
+        showError(new AppError('sox', 'SoX', soxStderr.trim() || `sox exited with code ${code}`));
+        clearMaxDurationTimer();
         setIsRecording(false);
         setSoxProcess(null);
+        closeWavWriter();
+        cancelStreamingSession();
         hideRecordingIndicator();
         updateStatus('ready');
       }
     });
   } catch (error) {
     console.error('Failed to start recording:', error);
+    showError(toAppError(error, 'Recording'));
+    clearMaxDurationTimer();
     setIsRecording(false);
     setSoxProcess(null);
+    closeWavWriter();
+    cancelStreamingSession();
     hideRecordingIndicator();
     updateStatus('ready');
   }
@@ -149,6 +365,7 @@ export async function startRecording() {
 export async function cancelRecording() {
   console.log('Cancelling recording...');
   setIsRecording(false);
+  clearMaxDurationTimer();
 
   // Resume any media that was paused
   await resumeMedia();
@@ -157,7 +374,7 @@ export async function cancelRecording() {
   hideRecordingIndicator();
 
   // Stop video recording
-  if (includeVideo && mainWindow) {
+  if (recordingWithVideo && mainWindow) {
     mainWindow.webContents.send('stop-video-recording');
   }
   clearVideoFrames();
@@ -174,6 +391,13 @@ export async function cancelRecording() {
     });
   }
 
+  closeWavWriter();
+  await cancelStreamingSession();
+  setRecordingTarget(null);
+  rewriteSelection = null;
+  vad = null;
+  meter = null;
+
   // Wait for file handles to release, then delete temp files
   await new Promise(resolve => setTimeout(resolve, 200));
   await cleanupTempFiles();
@@ -182,18 +406,19 @@ export async function cancelRecording() {
 }
 
 /**
- * Stop recording and process with Gemini
+ * Stop recording and process with the active provider
  */
 export async function stopRecording() {
   console.log('Stopping recording...');
   setIsRecording(false);
+  clearMaxDurationTimer();
 
   updateTrayIcon(false);
   hideRecordingIndicator();
   updateStatus('processing');
 
   // Stop video recording
-  if (includeVideo && mainWindow) {
+  if (recordingWithVideo && mainWindow) {
     mainWindow.webContents.send('stop-video-recording');
   }
 
@@ -212,11 +437,18 @@ export async function stopRecording() {
     });
   }
 
+  const duration = wavWriter ? wavWriter.bytesWritten() / BYTES_PER_SECOND : 0;
+  closeWavWriter();
+
+  const speechDetected = vad ? vad.hasSpeech() : true;
+  vad = null;
+  meter = null;
+
   // Resume any media that was paused (immediately after recording stops)
   await resumeMedia();
 
   // Wait for video file if needed
-  if (includeVideo) {
+  if (recordingWithVideo) {
     await new Promise(resolve => setTimeout(resolve, 1500));
     if (!videoRecordingConfirmed) {
       console.error('Video recording never started; skipping video processing');
@@ -226,9 +458,13 @@ export async function stopRecording() {
   // Wait for files to be fully written
   await new Promise(resolve => setTimeout(resolve, 500));
 
+  const selection = rewriteSelection;
+  rewriteSelection = null;
+
+  const hasAudio = fs.existsSync(AUDIO_FILE_PATH) && fs.statSync(AUDIO_FILE_PATH).size > 1000;
+
   try {
-    const hasVideo = includeVideo && fs.existsSync(VIDEO_FILE_PATH) && fs.statSync(VIDEO_FILE_PATH).size > 1000;
-    const hasAudio = fs.existsSync(AUDIO_FILE_PATH) && fs.statSync(AUDIO_FILE_PATH).size > 1000;
+    const hasVideo = recordingWithVideo && fs.existsSync(VIDEO_FILE_PATH) && fs.statSync(VIDEO_FILE_PATH).size > 1000;
 
     if (!hasAudio && !hasVideo) {
       console.error('No valid recording files exist');
@@ -237,34 +473,98 @@ export async function stopRecording() {
       return;
     }
 
-    console.log('Calling Gemini API...');
+    if (!speechDetected && discardSilentRecordings) {
+      console.log('No speech detected; discarding recording');
+      playSound(400, 200);
+      return;
+    }
+
+    console.log('Calling transcription provider...');
     console.log('Has Video:', hasVideo, 'Has Audio:', hasAudio);
 
-    let refinedText = '';
-    if (hasVideo && hasAudio) {
-      console.log('Processing Video + Audio with Gemini...');
-      refinedText = await processVideoWithGemini(VIDEO_FILE_PATH, AUDIO_FILE_PATH, recordedVideoFrames);
-    } else if (hasAudio) {
-      console.log('Processing Audio-only with Gemini...');
-      refinedText = await processAudioWithGemini(AUDIO_FILE_PATH, recordedVideoFrames);
-    } else if (hasVideo) {
-      console.log('Processing Video-only with Gemini...');
-      refinedText = await processVideoWithGemini(VIDEO_FILE_PATH, '', recordedVideoFrames);
+    let result: TranscriptionResult | null = null;
+
+    if (selection !== null) {
+      result = hasAudio
+        ? await processRewrite(AUDIO_FILE_PATH, selection)
+        : { text: '', rawText: '', providerId: '' };
+    }
+
+    // Use the partial transcripts gathered while recording when available
+    if (!result && isStreamingActive() && hasAudio && !hasVideo) {
+      const segments = await finishStreamingSession();
+      const transcript = segments.map(segment => segment.text).join(' ');
+      console.log('Stitched streaming transcript:', transcript ? transcript.substring(0, 100) + '...' : '(empty)');
+      if (transcript) {
+        result = { ...(await processTranscript(transcript)), segments };
+      }
     }
 
-    console.log('Gemini response:', refinedText ? refinedText.substring(0, 100) + '...' : '(empty)');
+    if (selection === null && (!result || !result.text)) {
+      result = await processRecording({
+        audioPath: hasAudio ? AUDIO_FILE_PATH : undefined,
+        videoPath: hasVideo ? VIDEO_FILE_PATH : undefined,
+        videoFrames: recordedVideoFrames
+      });
+    }
 
-    if (refinedText) {
+    const refinedText = result ? applyReplacements(result.text) : '';
+    console.log('Provider response:', refinedText ? refinedText.substring(0, 100) + '...' : '(empty)');
+
+    if (result && refinedText) {
       playSound(1000, 100);
-      showTranscriptionResult(refinedText);
-      await pasteTextToActiveWindow(refinedText);
+      addHistoryEntry({
+        mode: selection !== null ? 'rewrite' : currentMode,
+        provider: result.providerId,
+        duration,
+        rawText: result.rawText,
+        refinedText,
+        targetApp: recordingTarget ? recordingTarget.app || recordingTarget.title : null,
+        segments: result.segments && applySegmentReplacements(result.segments)
+      });
+
+      // Processing takes a while, so only paste if the user is still in the recorded window
+      // (for a rewrite the selection is then still active, so pasting replaces it).
+      // Unknown focus (e.g. Wayland) cannot be checked and is pasted as before.
+      const currentTarget = await getActiveWindowInfo();
+      if (!hasFocusChanged(recordingTarget, currentTarget)) {
+        showTranscriptionResult(refinedText);
+        await pasteTextToActiveWindow(refinedText);
+      } else {
+        const reason = `focus moved from ${describeWindow(recordingTarget)} to ${describeWindow(currentTarget)}`;
+        console.warn(`Not pasting: ${reason}`);
+        showTranscriptionResult(refinedText, `Not pasted because ${reason}.`);
+      }
+    } else {
+      playSound(400, 200);
     }
   } catch (error) {
     console.error('Error processing:', error);
+    const appError = toAppError(error, 'Transcription');
+
+    // Keep the audio so the dictation is not lost (video is not kept)
+    const queued = hasAudio
+      ? queueFailedRecording(AUDIO_FILE_PATH, {
+        mode: currentMode,
+        selection,
+        duration,
+        targetApp: recordingTarget ? recordingTarget.app || recordingTarget.title : null
+      }, appError)
+      : null;
+
+    if (!queued) {
+      showError(appError);
+    } else if (queued.nextAttemptAt > 0) {
+      showError(appError, 'The recording was saved and will be retried automatically.');
+    } else {
+      showError(appError, 'The recording was saved; retry it from the tray menu.');
+    }
     playSound(400, 200);
   } finally {
+    await cancelStreamingSession();
     clearVideoFrames();
     setVideoRecordingConfirmed(false);
+    setRecordingTarget(null);
 
     await cleanupTempFiles();
 
@@ -0,0 +1,190 @@
+import { clipboard, net } from 'electron';
+import { isRecording } from './state';
+import { updateStatus, showError, showInfo, setRetryQueueCallback } from './windows';
+import { processRecording, processRewrite } from './transcription';
+import { getMode, getCurrentModeDefinition } from './modes';
+import { applyReplacements, applySegmentReplacements } from './dictionary';
+import { addHistoryEntry } from './history';
+import { AppError, toAppError, toErrorReport } from './errors';
+import {
+  QueuedRecording, enqueueRecording, listQueue, getQueuedRecording, getQueuedAudioPath,
+  updateQueuedRecording, removeQueuedRecording, onQueueChanged
+} from './queue';
+
+// How often the queue checks connectivity and due retries
+const CHECK_INTERVAL_MS = 30000;
+// Automatic retries back off from one minute up to half an hour
+const RETRY_BASE_DELAY_MS = 60000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+// After this many attempts only a manual retry is tried
+const MAX_AUTO_ATTEMPTS = 8;
+
+let watcher: NodeJS.Timeout | null = null;
+let wasOnline = true;
+let busy = false;
+
+/**
+ * When to retry automatically after a failure (0 leaves it to the user)
+ *
+ * Only transient failures retry on their own; a missing or rejected key
+ * needs the user to fix settings first.
+ */
+function nextAttemptTime(error: AppError, attempts: number): number {
+  if (!error.transient || attempts >= MAX_AUTO_ATTEMPTS) return 0;
+  const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+  return Date.now() + Math.max(backoff, error.retryAfterMs ?? 0);
+}
+
+/**
+ * Save a recording whose processing failed; returns null if it was not queued
+ */
+export function queueFailedRecording(
+  audioPath: string,
+  info: Pick<QueuedRecording, 'mode' | 'selection' | 'duration' | 'targetApp'>,
+  error: AppError
+): QueuedRecording | null {
+  // Retrying a recording the provider found no speech in gives the same result
+  if (error.code === 'empty-response') return null;
+
+  try {
+    const queued = enqueueRecording(audioPath, {
+      ...info,
+      nextAttemptAt: nextAttemptTime(error, 1),
+      lastError: toErrorReport(error)
+    });
+    console.log(`Queued failed recording ${queued.id} for retry`);
+    return queued;
+  } catch (err) {
+    console.error('Failed to queue recording:', err);
+    return null;
+  }
+}
+
+/**
+ * Process one queued recording, delivering the result to history and the clipboard
+ *
+ * The window that was focused when recording stopped is long gone, so the
+ * result is never pasted.
+ */
+async function processQueuedRecording(item: QueuedRecording, manual: boolean): Promise<boolean> {
+  const audioPath = getQueuedAudioPath(item);
+  const mode = getMode(item.mode) || getCurrentModeDefinition();
+
+  try {
+    const result = item.selection !== null
+      ? await processRewrite(audioPath, item.selection)
+      : await processRecording({ audioPath }, mode);
+
+    const refinedText = applyReplacements(result.text);
+    addHistoryEntry({
+      mode: item.selection !== null ? 'rewrite' : item.mode,
+      provider: result.providerId,
+      duration: item.duration,
+      rawText: result.rawText,
+      refinedText,
+      targetApp: item.targetApp,
+      segments: result.segments && applySegmentReplacements(result.segments)
+    });
+    clipboard.writeText(refinedText);
+    removeQueuedRecording(item.id);
+
+    showInfo('A queued recording was transcribed and copied to the clipboard');
+    return true;
+  } catch (err) {
+    const error = toAppError(err, 'Transcription');
+    const attempts = item.attempts + 1;
+    console.error(`Retry ${attempts} of queued recording ${item.id} failed:`, error.message);
+
+    updateQueuedRecording(item.id, {
+      attempts,
+      nextAttemptAt: nextAttemptTime(error, attempts),
+      lastError: toErrorReport(error)
+    });
+    if (manual) {
+      showError(error);
+    }
+    return false;
+  }
+}
+
+/**
+ * Retry the given recordings one at a time
+ */
+async function retryItems(ids: string[], manual: boolean) {
+  if (busy || ids.length === 0) return;
+  busy = true;
+
+  try {
+    for (let i = 0; i < ids.length; i++) {
+      // A new recording takes priority; the rest wait for the next check
+      if (isRecording) break;
+
+      const item = getQueuedRecording(ids[i]);
+      if (!item) continue;
+
+      updateStatus('processing', `Retrying queued recording ${i + 1} of ${ids.length}...`);
+      await processQueuedRecording(item, manual);
+    }
+  } finally {
+    busy = false;
+    if (!isRecording) {
+      updateStatus('ready');
+    }
+  }
+}
+
+/**
+ * Retry one queued recording, or all of them, at the user's request
+ */
+export async function retryQueued(id?: string) {
+  if (busy) {
+    console.log('Queue retry already running');
+    return;
+  }
+  if (isRecording) {
+    showInfo('Stop recording before retrying queued recordings');
+    return;
+  }
+
+  const ids = id ? [id] : listQueue().map(item => item.id);
+  await retryItems(ids, true);
+}
+
+/**
+ * Retry recordings that are due, or all automatic ones when the network comes back
+ */
+function checkQueue() {
+  const online = net.isOnline();
+  const cameOnline = online && !wasOnline;
+  wasOnline = online;
+
+  if (!online || busy || isRecording) return;
+
+  const now = Date.now();
+  const due = listQueue().filter(item =>
+    item.nextAttemptAt > 0 && (cameOnline || item.nextAttemptAt <= now)
+  );
+  if (due.length > 0) {
+    console.log(`Retrying ${due.length} queued recording(s)${cameOnline ? ' after reconnecting' : ''}`);
+    retryItems(due.map(item => item.id), false);
+  }
+}
+
+/**
+ * Run the periodic check only while something is queued
+ */
+function updateWatcher() {
+  const hasItems = listQueue().length > 0;
+  if (hasItems && !watcher) {
+    watcher = setInterval(checkQueue, CHECK_INTERVAL_MS);
+  } else if (!hasItems && watcher) {
+    clearInterval(watcher);
+    watcher = null;
+  }
+}
+
+setRetryQueueCallback((id) => { retryQueued(id); });
+onQueueChanged(updateWatcher);
+
+// Resume retries for recordings queued in an earlier session
+updateWatcher();
@@ -0,0 +1,281 @@
+import { app, safeStorage } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ENV_FILE_PATH } from './config';
+
+// 'keychain' uses the OS credential store, 'file' the local fallback key
+export type SecretBackend = 'keychain' | 'file';
+
+/**
+ * What the renderer may know about a provider key (never the key itself)
+ */
+export interface ApiKeyInfo {
+  providerId: string;
+  // 'secure' when stored encrypted, 'env' when still read from .env
+  source: 'secure' | 'env' | null;
+  backend: SecretBackend | null;
+}
+
+interface SecretEntry {
+  backend: SecretBackend;
+  data: string;
+  updatedAt: number;
+}
+
+const SECRETS_FILE_PATH = path.join(app.getPath('userData'), 'secrets.json');
+const FALLBACK_KEY_PATH = path.join(app.getPath('userData'), 'secrets.key');
+
+// Environment variables that held each provider's key before the secret store
+const ENV_KEY_NAMES: Record<string, string[]> = {
+  gemini: ['API_KEY', 'GEMINI_API_KEY'],
+  openai: ['OPENAI_API_KEY'],
+  groq: ['GROQ_API_KEY']
+};
+
+export const API_KEY_PROVIDERS = Object.keys(ENV_KEY_NAMES);
+
+let entries: Record<string, SecretEntry> | null = null;
+// Decrypted keys, so the keychain is not queried for every request
+const decrypted = new Map<string, string>();
+
+/**
+ * Whether safeStorage is backed by a real OS keychain
+ */
+function isKeychainAvailable(): boolean {
+  if (!safeStorage.isEncryptionAvailable()) return false;
+  // Without a keyring Chromium encrypts with a hard-coded password
+  if (process.platform === 'linux' && safeStorage.getSelectedStorageBackend() === 'basic_text') {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Backend used for newly stored keys
+ */
+export function getSecretBackend(): SecretBackend {
+  return isKeychainAvailable() ? 'keychain' : 'file';
+}
+
+/**
+ * Read or create the fallback encryption key (readable only by the user)
+ *
+ * This keeps keys out of plaintext config and backups of settings, but anyone
+ * who can read the user's profile directory can decrypt them.
+ */
+function getFallbackKey(): Buffer {
+  if (fs.existsSync(FALLBACK_KEY_PATH)) {
+    const key = fs.readFileSync(FALLBACK_KEY_PATH);
+    if (key.length !== 32) {
+      throw new Error(`${FALLBACK_KEY_PATH} is damaged`);
+    }
+    return key;
+  }
+
+  const key = crypto.randomBytes(32);
+  fs.writeFileSync(FALLBACK_KEY_PATH, key, { mode: 0o600 });
+  return key;
+}
+
+/**
+ * Encrypt a value with the preferred backend
+ */
+function encrypt(value: string): SecretEntry {
+  if (isKeychainAvailable()) {
+    return {
+      backend: 'keychain',
+      data: safeStorage.encryptString(value).toString('base64'),
+      updatedAt: Date.now()
+    };
+  }
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getFallbackKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+  return {
+    backend: 'file',
+    data: [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.'),
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Decrypt a stored entry; null when it cannot be read on this machine
+ */
+function decrypt(entry: SecretEntry): string | null {
+  try {
+    if (entry.backend === 'keychain') {
+      if (!safeStorage.isEncryptionAvailable()) {
+        console.error('OS keychain is not available to decrypt a stored key');
+        return null;
+      }
+      return safeStorage.decryptString(Buffer.from(entry.data, 'base64'));
+    }
+
+    const [iv, tag, encrypted] = entry.data.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getFallbackKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf-8');
+  } catch (err) {
+    console.error('Failed to decrypt stored key:', err);
+    return null;
+  }
+}
+
+/**
+ * Write entries to disk atomically (readable only by the user)
+ */
+function saveEntries() {
+  if (!entries) return;
+  try {
+    const tempPath = `${SECRETS_FILE_PATH}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ version: 1, keys: entries }, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, SECRETS_FILE_PATH);
+  } catch (err) {
+    console.error('Failed to save secrets:', err);
+  }
+}
+
+/**
+ * Remove variables from the .env file, keeping every other line
+ */
+function removeFromEnvFile(names: string[]) {
+  if (!fs.existsSync(ENV_FILE_PATH)) return;
+
+  try {
+    const content = fs.readFileSync(ENV_FILE_PATH, 'utf-8');
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const pattern = new RegExp(`^\\s*(export\\s+)?(${names.join('|')})\\s*=`);
+    const lines = content.split(/\r?\n/);
+    const kept = lines.filter(line => !pattern.test(line));
+
+    if (kept.length !== lines.length) {
+      fs.writeFileSync(ENV_FILE_PATH, kept.join(eol));
+      console.log(`Removed ${names.join(', ')} from ${ENV_FILE_PATH}`);
+    }
+  } catch (err) {
+    console.warn(`Could not remove keys from ${ENV_FILE_PATH}, delete them manually:`, err);
+  }
+}
+
+/**
+ * Move keys found in .env into the secret store
+ */
+function migrateEnvKeys(current: Record<string, SecretEntry>) {
+  for (const [providerId, names] of Object.entries(ENV_KEY_NAMES)) {
+    const envName = names.find(name => process.env[name]);
+    if (!envName || current[providerId]) continue;
+
+    try {
+      current[providerId] = encrypt(process.env[envName] as string);
+    } catch (err) {
+      // Keep using the .env key until it can be stored
+      console.error(`Failed to migrate ${envName} into secure storage:`, err);
+      continue;
+    }
+
+    console.log(`Moved ${envName} from .env into secure storage`);
+    saveEntries();
+    removeFromEnvFile(names);
+    for (const name of names) {
+      delete process.env[name];
+    }
+  }
+}
+
+/**
+ * Load stored keys on first use (requires the app to be ready)
+ */
+function loadEntries(): Record<string, SecretEntry> {
+  if (entries) return entries;
+
+  entries = {};
+  try {
+    if (fs.existsSync(SECRETS_FILE_PATH)) {
+      const data = JSON.parse(fs.readFileSync(SECRETS_FILE_PATH, 'utf-8'));
+      for (const [providerId, entry] of Object.entries<any>(data?.keys || {})) {
+        if ((entry?.backend === 'keychain' || entry?.backend === 'file') && typeof entry.data === 'string') {
+          entries[providerId] = entry;
+        }
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load secrets:', err);
+  }
+
+  migrateEnvKeys(entries);
+  return entries;
+}
+
+/**
+ * Get a provider's API key (stored key first, then a .env key not yet migrated)
+ */
+export function getApiKey(providerId: string): string | undefined {
+  const cached = decrypted.get(providerId);
+  if (cached) return cached;
+
+  const entry = loadEntries()[providerId];
+  const value = entry ? decrypt(entry) : null;
+  if (value) {
+    decrypted.set(providerId, value);
+    return value;
+  }
+
+  const envName = (ENV_KEY_NAMES[providerId] || []).find(name => process.env[name]);
+  return envName ? process.env[envName] : undefined;
+}
+
+/**
+ * Store a provider's API key; returns an error message on failure
+ */
+export function storeApiKey(providerId: string, apiKey: string): string | null {
+  if (!API_KEY_PROVIDERS.includes(providerId)) {
+    return `Provider ${providerId} does not use an API key`;
+  }
+
+  const trimmed = typeof apiKey === 'string' ? apiKey.trim() : '';
+  if (!trimmed || /\s/.test(trimmed)) {
+    return 'API key must be a single word without spaces';
+  }
+
+  try {
+    loadEntries()[providerId] = encrypt(trimmed);
+  } catch (err: any) {
+    return `Could not encrypt the key: ${err.message}`;
+  }
+
+  decrypted.set(providerId, trimmed);
+  saveEntries();
+  console.log(`Stored API key for ${providerId} (${getSecretBackend()})`);
+  return null;
+}
+
+/**
+ * Forget a provider's stored API key
+ */
+export function removeApiKey(providerId: string): boolean {
+  const current = loadEntries();
+  if (!current[providerId]) return false;
+
+  delete current[providerId];
+  decrypted.delete(providerId);
+  saveEntries();
+  console.log(`Removed API key for ${providerId}`);
+  return true;
+}
+
+/**
+ * Where each provider's key comes from
+ */
+export function listApiKeys(): ApiKeyInfo[] {
+  const current = loadEntries();
+  return API_KEY_PROVIDERS.map(providerId => {
+    const entry = current[providerId];
+    if (entry) {
+      return { providerId, source: 'secure', backend: entry.backend };
+    }
+    const fromEnv = ENV_KEY_NAMES[providerId].some(name => process.env[name]);
+    return { providerId, source: fromEnv ? 'env' : null, backend: null };
+  });
+}
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AUDIO_FILE_PATH } from './config';
+import { BYTES_PER_SECOND, BYTES_PER_SAMPLE, readWavPcm, writeWavFile } from './wav';
+
+// Longest run of repeated words looked for at a segment boundary
+const MAX_OVERLAP_WORDS = 30;
+// Shorter matches are too likely to be a coincidence
+const MIN_OVERLAP_WORDS = 2;
+// Words at the cut may be garbled, so allow skipping a few on either side
+const MAX_EDGE_WORDS = 2;
+
+/**
+ * Path of a temporary segment file
+ *
+ * The tag keeps files split at the same time (batch jobs) from colliding.
+ */
+function segmentFilePath(tag: string, index: number): string {
+  return path.join(path.dirname(AUDIO_FILE_PATH), `temp_segment_${tag}_${index}.wav`);
+}
+
+/**
+ * Split a WAV file into overlapping segments written to temporary files
+ *
+ * Each segment starts overlapSeconds before the previous one ended so no word
+ * is lost at a cut; mergeTranscripts removes the repeated words afterwards.
+ */
+export function splitAudioFile(audioPath: string, segmentSeconds: number, overlapSeconds: number): string[] {
+  const pcm = readWavPcm(audioPath);
+  const alignToSample = (bytes: number) => bytes - (bytes % BYTES_PER_SAMPLE);
+  const segmentBytes = alignToSample(Math.floor(segmentSeconds * BYTES_PER_SECOND));
+  const stepBytes = alignToSample(Math.floor((segmentSeconds - overlapSeconds) * BYTES_PER_SECOND));
+  if (stepBytes <= 0) {
+    throw new Error(`Segments of ${segmentSeconds}s must be longer than their ${overlapSeconds}s overlap`);
+  }
+
+  const tag = crypto.randomBytes(4).toString('hex');
+  const files: string[] = [];
+  for (let offset = 0; offset < pcm.length; offset += stepBytes) {
+    const filePath = segmentFilePath(tag, files.length);
+    writeWavFile(filePath, pcm.subarray(offset, offset + segmentBytes));
+    files.push(filePath);
+    if (offset + segmentBytes >= pcm.length) break;
+  }
+  return files;
+}
+
+/**
+ * Delete temporary segment files
+ */
+export function removeSegmentFiles(files: string[]) {
+  for (const filePath of files) {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (err) {
+      console.warn('Could not delete segment file:', filePath, err);
+    }
+  }
+}
+
+/**
+ * Compare words ignoring case and punctuation
+ */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Find the words repeated at the boundary between two transcripts
+ *
+ * Returns how many words of the previous transcript to keep and how many of
+ * the next one to drop (both 0 and full length when nothing overlaps).
+ */
+function findOverlap(previous: string[], next: string[]): { keep: number; drop: number } {
+  const normalizedPrevious = previous.map(normalizeWord);
+  const normalizedNext = next.map(normalizeWord);
+
+  for (let size = Math.min(MAX_OVERLAP_WORDS, previous.length, next.length); size >= MIN_OVERLAP_WORDS; size--) {
+    for (let skipEnd = 0; skipEnd <= MAX_EDGE_WORDS; skipEnd++) {
+      for (let skipStart = 0; skipStart <= MAX_EDGE_WORDS; skipStart++) {
+        const end = previous.length - skipEnd;
+        if (end - size < 0 || skipStart + size > next.length) continue;
+
+        let matches = true;
+        for (let i = 0; i < size && matches; i++) {
+          const word = normalizedPrevious[end - size + i];
+          matches = word !== '' && word === normalizedNext[skipStart + i];
+        }
+        if (matches) {
+          return { keep: end, drop: skipStart + size };
+        }
+      }
+    }
+  }
+
+  return { keep: previous.length, drop: 0 };
+}
+
+/**
+ * Remove words repeated in the overlaps, returning what is left of each part
+ */
+export function mergeTranscriptParts(parts: string[]): string[] {
+  const kept: string[][] = [];
+  let total = 0;
+
+  for (const part of parts) {
+    const words = part.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      kept.push([]);
+      continue;
+    }
+
+    const { keep, drop } = findOverlap(([] as string[]).concat(...kept), words);
+
+    // The overlap may end a few words before the previous part does
+    let excess = total - keep;
+    for (let i = kept.length - 1; i >= 0 && excess > 0; i--) {
+      const removed = Math.min(excess, kept[i].length);
+      kept[i] = kept[i].slice(0, kept[i].length - removed);
+      excess -= removed;
+    }
+
+    kept.push(words.slice(drop));
+    total = keep + words.length - drop;
+  }
+
+  return kept.map(words => words.join(' '));
+}
+
+/**
+ * Join segment transcripts, removing words repeated in the overlaps
+ */
+export function mergeTranscripts(parts: string[]): string {
+  return mergeTranscriptParts(parts).filter(Boolean).join(' ');
+}
@@ -0,0 +1,436 @@
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import {
+  PROVIDER, WHISPER_MODEL_PATH, STREAMING_ENABLED, PUSH_TO_TALK,
+  TRANSLATION_TARGET_LANGUAGE, HISTORY_MAX_ENTRIES, HISTORY_RETENTION_DAYS,
+  VAD_AUTO_STOP, VAD_SILENCE_SECONDS, VAD_DISCARD_SILENT, MAX_RECORDING_MINUTES,
+  PASTE_RESTORE_CLIPBOARD, PASTE_RESTORE_DELAY_MS, PASTE_STRATEGY, LOCAL_CLOUD_FALLBACK
+} from './config';
+import {
+  setCurrentMode, setIncludeVideo, setCaptureSources, setActiveProviderId, setLocalModelPath, setLocalCloudFallback,
+  setStreamingEnabled, setPushToTalkEnabled, setAudioInputDevice,
+  setAutoStopEnabled, setAutoStopSilenceSeconds, setDiscardSilentRecordings, setMaxRecordingMinutes,
+  setTranslationTargetLanguage, setTranslationKeepSource,
+  setRestoreClipboardAfterPaste, setClipboardRestoreDelayMs, setPasteStrategyId, setTypeOutApps
+} from './state';
+import { setRetentionPolicy, RetentionPolicy } from './history';
+import { CaptureSource, isCaptureSource } from './capture';
+
+export const SETTINGS_VERSION = 1;
+
+/**
+ * User settings persisted in settings.json
+ */
+export interface Settings {
+  version: number;
+  mode: string;
+  includeVideo: boolean;
+  // Screen context source by mode id (null or missing captures the whole screen)
+  captureSources: Record<string, CaptureSource | null>;
+  provider: string;
+  localModelPath: string;
+  // Send audio to a cloud provider when the local model is missing (off keeps audio on this machine)
+  localCloudFallback: boolean;
+  streaming: boolean;
+  // Record while the hotkey is held; needs OS key auto-repeat to see the release,
+  // so where shortcuts do not repeat (macOS) the hotkey toggles instead
+  pushToTalk: boolean;
+  // SoX input device name ('' uses the system default)
+  audioInputDevice: string;
+  // Recordings stop automatically after this long (0 disables the limit)
+  maxRecordingMinutes: number;
+  translation: {
+    targetLanguage: string;
+    keepSource: boolean;
+  };
+  history: RetentionPolicy;
+  // Voice activity detection
+  vad: {
+    autoStop: boolean;
+    silenceSeconds: number;
+    discardSilent: boolean;
+  };
+  // Auto-paste into the focused window
+  paste: {
+    // Put the previous clipboard back (false leaves the result on the clipboard)
+    restoreClipboard: boolean;
+    restoreDelayMs: number;
+    // Paste strategy id or 'auto'
+    strategy: string;
+    // Apps that block paste get the text typed key by key
+    typeApps: string[];
+  };
+}
+
+// Partial update; nested groups may be partial too
+export type SettingsPatch = Partial<Omit<Settings, 'version' | 'translation' | 'history' | 'vad' | 'paste'>> & {
+  translation?: Partial<Settings['translation']>;
+  history?: Partial<RetentionPolicy>;
+  vad?: Partial<Settings['vad']>;
+  paste?: Partial<Settings['paste']>;
+};
+
+export type SettingsListener = (settings: Settings, changedKeys: string[]) => void;
+
+interface FieldRule {
+  expected: string;
+  check: (value: any) => boolean;
+}
+
+interface SettingsSchema {
+  [key: string]: FieldRule | SettingsSchema;
+}
+
+const SETTINGS_FILE_PATH = path.join(app.getPath('userData'), 'settings.json');
+
+const nonEmptyString: FieldRule = {
+  expected: 'a non-empty string',
+  check: value => typeof value === 'string' && value.trim() !== ''
+};
+const string: FieldRule = {
+  expected: 'a string',
+  check: value => typeof value === 'string'
+};
+const boolean: FieldRule = {
+  expected: 'true or false',
+  check: value => typeof value === 'boolean'
+};
+const nonNegativeInteger: FieldRule = {
+  expected: 'a whole number of 0 or more (0 disables the limit)',
+  check: value => Number.isInteger(value) && value >= 0
+};
+const positiveNumber: FieldRule = {
+  expected: 'a number greater than 0',
+  check: value => typeof value === 'number' && Number.isFinite(value) && value > 0
+};
+const stringArray: FieldRule = {
+  expected: 'a list of strings',
+  check: value => Array.isArray(value) && value.every(item => typeof item === 'string')
+};
+const captureSourceMap: FieldRule = {
+  expected: 'an object mapping mode ids to a screen, window or region (or null)',
+  check: value => isPlainObject(value)
+    && Object.values(value).every(source => source === null || isCaptureSource(source))
+};
+const nonNegativeNumber: FieldRule = {
+  expected: 'a number of 0 or more (0 disables the limit)',
+  check: value => typeof value === 'number' && Number.isFinite(value) && value >= 0
+};
+
+const SETTINGS_SCHEMA: SettingsSchema = {
+  mode: nonEmptyString,
+  includeVideo: boolean,
+  captureSources: captureSourceMap,
+  provider: nonEmptyString,
+  localModelPath: nonEmptyString,
+  localCloudFallback: boolean,
+  streaming: boolean,
+  pushToTalk: boolean,
+  audioInputDevice: string,
+  maxRecordingMinutes: nonNegativeNumber,
+  translation: {
+    targetLanguage: nonEmptyString,
+    keepSource: boolean
+  },
+  history: {
+    maxEntries: nonNegativeInteger,
+    maxAgeDays: nonNegativeNumber
+  },
+  vad: {
+    autoStop: boolean,
+    silenceSeconds: positiveNumber,
+    discardSilent: boolean
+  },
+  paste: {
+    restoreClipboard: boolean,
+    restoreDelayMs: nonNegativeNumber,
+    strategy: nonEmptyString,
+    typeApps: stringArray
+  }
+};
+
+/**
+ * Upgrades keyed by the version they start from
+ *
+ * Each migration receives the raw data of version N and returns version N + 1.
+ * Add one whenever a setting is renamed, moved or changes meaning.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {};
+
+let settings: Settings = loadSettings();
+const changeListeners: SettingsListener[] = [];
+
+/**
+ * Defaults for a fresh install (environment variables still seed these)
+ */
+export function getDefaultSettings(): Settings {
+  return {
+    version: SETTINGS_VERSION,
+    mode: 'prompt',
+    includeVideo: false,
+    captureSources: {},
+    provider: PROVIDER,
+    localModelPath: WHISPER_MODEL_PATH,
+    localCloudFallback: LOCAL_CLOUD_FALLBACK,
+    streaming: STREAMING_ENABLED,
+    pushToTalk: PUSH_TO_TALK,
+    audioInputDevice: '',
+    maxRecordingMinutes: MAX_RECORDING_MINUTES,
+    translation: {
+      targetLanguage: TRANSLATION_TARGET_LANGUAGE,
+      keepSource: false
+    },
+    history: {
+      maxEntries: HISTORY_MAX_ENTRIES,
+      maxAgeDays: HISTORY_RETENTION_DAYS
+    },
+    vad: {
+      autoStop: VAD_AUTO_STOP,
+      silenceSeconds: VAD_SILENCE_SECONDS,
+      discardSilent: VAD_DISCARD_SILENT
+    },
+    paste: {
+      restoreClipboard: PASTE_RESTORE_CLIPBOARD,
+      restoreDelayMs: PASTE_RESTORE_DELAY_MS,
+      strategy: PASTE_STRATEGY,
+      typeApps: []
+    }
+  };
+}
+
+function isPlainObject(value: any): boolean {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check data against a schema, using fallback values for missing or invalid fields
+ */
+function applySchema(schema: SettingsSchema, data: any, fallback: any, prefix: string, errors: string[]): any {
+  const result: any = {};
+
+  if (isPlainObject(data)) {
+    for (const key of Object.keys(data)) {
+      if (!(key in schema) && !(prefix === '' && key === 'version')) {
+        errors.push(`Unknown setting "${prefix}${key}"`);
+      }
+    }
+  }
+
+  for (const [key, rule] of Object.entries(schema)) {
+    const name = `${prefix}${key}`;
+    const value = isPlainObject(data) ? data[key] : undefined;
+
+    const field = rule as FieldRule;
+    if (typeof field.check === 'function') {
+      if (value === undefined) {
+        result[key] = fallback[key];
+      } else if (field.check(value)) {
+        result[key] = typeof value === 'string' ? value.trim() : value;
+      } else {
+        errors.push(`Setting "${name}" must be ${field.expected}`);
+        result[key] = fallback[key];
+      }
+    } else {
+      if (value !== undefined && !isPlainObject(value)) {
+        errors.push(`Setting "${name}" must be an object`);
+      }
+      result[key] = applySchema(rule as SettingsSchema, value, fallback[key], `${name}.`, errors);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Bring raw settings data up to the current version
+ */
+export function migrateSettings(data: any): { data: any; errors: string[] } {
+  if (!isPlainObject(data)) {
+    return { data: {}, errors: ['Settings must be a JSON object'] };
+  }
+
+  let version = data.version ?? SETTINGS_VERSION;
+  if (!Number.isInteger(version) || version < 1) {
+    return { data: {}, errors: [`Unsupported settings version: ${data.version}`] };
+  }
+  if (version > SETTINGS_VERSION) {
+    return { data: {}, errors: [`Settings version ${version} is newer than this app supports (${SETTINGS_VERSION})`] };
+  }
+
+  let migrated = { ...data };
+  while (version < SETTINGS_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version++;
+    console.log(`Migrated settings to version ${version}`);
+  }
+
+  return { data: { ...migrated, version: SETTINGS_VERSION }, errors: [] };
+}
+
+/**
+ * Validate raw settings (any version); invalid fields fall back to defaults
+ */
+export function validateSettings(data: any, fallback: Settings = getDefaultSettings()): { settings: Settings; errors: string[] } {
+  const migration = migrateSettings(data);
+  if (migration.errors.length > 0) {
+    return { settings: fallback, errors: migration.errors };
+  }
+
+  const errors: string[] = [];
+  const validated = applySchema(SETTINGS_SCHEMA, migration.data, fallback, '', errors);
+  return { settings: { ...validated, version: SETTINGS_VERSION }, errors };
+}
+
+/**
+ * Load settings from disk, falling back to defaults
+ */
+function loadSettings(): Settings {
+  const defaults = getDefaultSettings();
+  if (!fs.existsSync(SETTINGS_FILE_PATH)) {
+    return defaults;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(SETTINGS_FILE_PATH, 'utf-8'));
+  } catch (err) {
+    // Keep the unreadable file for inspection instead of overwriting it
+    console.error('Failed to load settings, using defaults:', err);
+    try {
+      fs.renameSync(SETTINGS_FILE_PATH, `${SETTINGS_FILE_PATH}.corrupt`);
+    } catch (renameErr) {
+      console.warn('Could not move corrupt settings file:', renameErr);
+    }
+    return defaults;
+  }
+
+  // Keep settings written by a newer version so a downgrade does not lose them
+  if (Number.isInteger(data?.version) && data.version > SETTINGS_VERSION) {
+    const backupPath = `${SETTINGS_FILE_PATH}.v${data.version}.bak`;
+    try {
+      fs.copyFileSync(SETTINGS_FILE_PATH, backupPath);
+      console.warn(`Settings were written by a newer version, backed up to ${backupPath}`);
+    } catch (err) {
+      console.warn('Could not back up newer settings file:', err);
+    }
+    return defaults;
+  }
+
+  const { settings: loaded, errors } = validateSettings(data, defaults);
+  for (const error of errors) {
+    console.error('Invalid settings.json:', error);
+  }
+  return loaded;
+}
+
+/**
+ * Write settings to disk atomically
+ */
+function saveSettings() {
+  try {
+    const tempPath = `${SETTINGS_FILE_PATH}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(settings, null, 2));
+    fs.renameSync(tempPath, SETTINGS_FILE_PATH);
+  } catch (err) {
+    console.error('Failed to save settings:', err);
+  }
+}
+
+/**
+ * Push settings into the runtime state
+ */
+function applyToState(current: Settings) {
+  setCurrentMode(current.mode);
+  setIncludeVideo(current.includeVideo);
+  setCaptureSources(current.captureSources);
+  setActiveProviderId(current.provider);
+  setLocalModelPath(current.localModelPath);
+  setLocalCloudFallback(current.localCloudFallback);
+  setStreamingEnabled(current.streaming);
+  setPushToTalkEnabled(current.pushToTalk);
+  setAudioInputDevice(current.audioInputDevice);
+  setMaxRecordingMinutes(current.maxRecordingMinutes);
+  setTranslationTargetLanguage(current.translation.targetLanguage);
+  setTranslationKeepSource(current.translation.keepSource);
+  setRetentionPolicy(current.history);
+  setAutoStopEnabled(current.vad.autoStop);
+  setAutoStopSilenceSeconds(current.vad.silenceSeconds);
+  setDiscardSilentRecordings(current.vad.discardSilent);
+  setRestoreClipboardAfterPaste(current.paste.restoreClipboard);
+  setClipboardRestoreDelayMs(current.paste.restoreDelayMs);
+  setPasteStrategyId(current.paste.strategy);
+  setTypeOutApps(current.paste.typeApps);
+}
+
+/**
+ * Replace the settings, persist them and notify listeners of what changed
+ */
+function commit(next: Settings) {
+  const changedKeys = Object.keys(next).filter(key =>
+    JSON.stringify((next as any)[key]) !== JSON.stringify((settings as any)[key])
+  );
+  if (changedKeys.length === 0) return;
+
+  settings = next;
+  saveSettings();
+  applyToState(settings);
+  console.log('Settings changed:', changedKeys.join(', '));
+
+  for (const listener of changeListeners) {
+    try {
+      listener(getSettings(), changedKeys);
+    } catch (err) {
+      console.error('Settings listener failed:', err);
+    }
+  }
+}
+
+/**
+ * Get a copy of the current settings
+ */
+export function getSettings(): Settings {
+  return JSON.parse(JSON.stringify(settings));
+}
+
+/**
+ * Change some settings; returns validation errors and changes nothing if any
+ */
+export function updateSettings(patch: SettingsPatch): string[] {
+  if (!isPlainObject(patch)) {
+    return ['Settings update must be an object'];
+  }
+
+  const merged: any = { ...settings, ...patch, version: SETTINGS_VERSION };
+  for (const [key, value] of Object.entries(patch)) {
+    // Nested groups are merged so callers can change a single field
+    if (isPlainObject(value) && isPlainObject((settings as any)[key])) {
+      merged[key] = { ...(settings as any)[key], ...(value as object) };
+    }
+  }
+
+  const { settings: next, errors } = validateSettings(merged, settings);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  commit(next);
+  return [];
+}
+
+/**
+ * Restore every setting to its default
+ */
+export function resetSettings() {
+  commit(getDefaultSettings());
+}
+
+/**
+ * Subscribe to settings changes
+ */
+export function onSettingsChanged(listener: SettingsListener) {
+  changeListeners.push(listener);
+}
+
+// Apply saved settings at startup
+applyToState(settings);
@@ -1,7 +1,13 @@
 import { BrowserWindow, Tray } from 'electron';
 import { ChildProcess } from 'child_process';
-import { GoogleGenAI } from '@google/genai';
-import { API_KEY } from './config';
+import {
+  PROVIDER, WHISPER_MODEL_PATH, STREAMING_ENABLED, TRANSLATION_TARGET_LANGUAGE, PUSH_TO_TALK,
+  VAD_AUTO_STOP, VAD_SILENCE_SECONDS, VAD_DISCARD_SILENT, MAX_RECORDING_MINUTES,
+  PASTE_RESTORE_CLIPBOARD, PASTE_RESTORE_DELAY_MS, PASTE_STRATEGY, LOCAL_CLOUD_FALLBACK
+} from './config';
+import { ActiveWindowInfo } from './focus';
+import { VideoFrame } from './frames';
+import { CaptureSource } from './capture';
 
 // Window references
 export let mainWindow: BrowserWindow | null = null;
@@ -14,18 +20,40 @@ export let recordingStartTime: number = 0;
 export let recordingTimerInterval: NodeJS.Timeout | null = null;
 export let wasWindowVisibleBeforeRecording: boolean = true;
 export let soxProcess: ChildProcess | null = null;
+export let recordingTarget: ActiveWindowInfo | null = null;
 
 // Mode and settings
-export let currentMode: 'prompt' | 'transcription' = 'prompt';
+export let currentMode: string = 'prompt';
 export let includeVideo = false;
+// Screen, window or region to capture, by mode id (none uses the whole screen)
+export let captureSources: Record<string, CaptureSource | null> = {};
+export let activeProviderId: string = PROVIDER;
+export let localModelPath: string = WHISPER_MODEL_PATH;
+export let localCloudFallback = LOCAL_CLOUD_FALLBACK;
+export let streamingEnabled = STREAMING_ENABLED;
+export let translationTargetLanguage: string = TRANSLATION_TARGET_LANGUAGE;
+export let translationKeepSource = false;
+export let pushToTalkEnabled = PUSH_TO_TALK;
+// SoX input device name ('' uses the system default)
+export let audioInputDevice = '';
+export let autoStopEnabled = VAD_AUTO_STOP;
+export let autoStopSilenceSeconds = VAD_SILENCE_SECONDS;
+export let discardSilentRecordings = VAD_DISCARD_SILENT;
+export let maxRecordingMinutes = MAX_RECORDING_MINUTES;
+// Put the user's clipboard back after auto-paste (false leaves the result on it)
+export let restoreClipboardAfterPaste = PASTE_RESTORE_CLIPBOARD;
+export let clipboardRestoreDelayMs = PASTE_RESTORE_DELAY_MS;
+export let pasteStrategyId: string = PASTE_STRATEGY;
+// Apps that block paste; text is typed into them key by key
+export let typeOutApps: string[] = [];
 
 // Video recording state
-export let recordedVideoFrames: string[] = [];
+// Distinct frames only; near-duplicates are dropped as they arrive
+export let recordedVideoFrames: VideoFrame[] = [];
+// Source of the current recording (frames of a region are cropped on arrival)
+export let recordingCaptureSource: CaptureSource | null = null;
 export let videoRecordingConfirmed = false;
 
-// Gemini AI instance
-export let ai: GoogleGenAI | null = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
-
 // Setters for mutable state
 export function setMainWindow(window: BrowserWindow | null) {
   mainWindow = window;
@@ -59,7 +87,11 @@ export function setSoxProcess(process: ChildProcess | null) {
   soxProcess = process;
 }
 
-export function setCurrentMode(mode: 'prompt' | 'transcription') {
+export function setRecordingTarget(target: ActiveWindowInfo | null) {
+  recordingTarget = target;
+}
+
+export function setCurrentMode(mode: string) {
   currentMode = mode;
 }
 
@@ -67,11 +99,83 @@ export function setIncludeVideo(value: boolean) {
   includeVideo = value;
 }
 
-export function setRecordedVideoFrames(frames: string[]) {
+export function setCaptureSources(sources: Record<string, CaptureSource | null>) {
+  captureSources = sources;
+}
+
+export function setRecordingCaptureSource(source: CaptureSource | null) {
+  recordingCaptureSource = source;
+}
+
+export function setActiveProviderId(id: string) {
+  activeProviderId = id;
+}
+
+export function setLocalModelPath(modelPath: string) {
+  localModelPath = modelPath;
+}
+
+export function setLocalCloudFallback(value: boolean) {
+  localCloudFallback = value;
+}
+
+export function setStreamingEnabled(value: boolean) {
+  streamingEnabled = value;
+}
+
+export function setTranslationTargetLanguage(language: string) {
+  translationTargetLanguage = language;
+}
+
+export function setTranslationKeepSource(value: boolean) {
+  translationKeepSource = value;
+}
+
+export function setPushToTalkEnabled(value: boolean) {
+  pushToTalkEnabled = value;
+}
+
+export function setAudioInputDevice(device: string) {
+  audioInputDevice = device;
+}
+
+export function setAutoStopEnabled(value: boolean) {
+  autoStopEnabled = value;
+}
+
+export function setAutoStopSilenceSeconds(seconds: number) {
+  autoStopSilenceSeconds = seconds;
+}
+
+export function setDiscardSilentRecordings(value: boolean) {
+  discardSilentRecordings = value;
+}
+
+export function setMaxRecordingMinutes(minutes: number) {
+  maxRecordingMinutes = minutes;
+}
+
+export function setRestoreClipboardAfterPaste(value: boolean) {
+  restoreClipboardAfterPaste = value;
+}
+
+export function setClipboardRestoreDelayMs(delayMs: number) {
+  clipboardRestoreDelayMs = delayMs;
+}
+
+export function setPasteStrategyId(id: string) {
+  pasteStrategyId = id;
+}
+
+export function setTypeOutApps(apps: string[]) {
+  typeOutApps = apps;
+}
+
+export function setRecordedVideoFrames(frames: VideoFrame[]) {
   recordedVideoFrames = frames;
 }
 
-export function addVideoFrame(frame: string) {
+export function addVideoFrame(frame: VideoFrame) {
   recordedVideoFrames.push(frame);
 }
 
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { AUDIO_FILE_PATH, STREAMING_CHUNK_SECONDS } from './config';
+import { resolveProvider, TranscriptSegment } from './providers';
+import { updateRecordingPartialText } from './windows';
+import { BYTES_PER_SECOND, BYTES_PER_SAMPLE, writeWavFile } from './wav';
+
+// Chunks shorter than this (the final flush) are padded with silence so providers accept them
+const MIN_CHUNK_SECONDS = 0.5;
+// Window used to find a quiet place to cut between words
+const SPLIT_WINDOW_SECONDS = 0.02;
+const SPLIT_SEARCH_SECONDS = 1;
+
+interface StreamingSession {
+  pending: Buffer[];
+  pendingBytes: number;
+  chunkIndex: number;
+  // Audio already handed to chunks, in bytes (start of the next chunk)
+  queuedBytes: number;
+  partials: TranscriptSegment[];
+  chunkFiles: string[];
+  queue: Promise<void>;
+  cancelled: boolean;
+  // A chunk failed, so the stitched text would have a gap
+  failed: boolean;
+}
+
+let session: StreamingSession | null = null;
+
+/**
+ * Path of a temporary chunk file
+ */
+function chunkFilePath(index: number): string {
+  return path.join(path.dirname(AUDIO_FILE_PATH), `temp_chunk_${index}.wav`);
+}
+
+/**
+ * Find the quietest point near the end of a buffer so words are not cut in half
+ */
+function findSplitPoint(pcm: Buffer): number {
+  const windowBytes = Math.floor(BYTES_PER_SECOND * SPLIT_WINDOW_SECONDS);
+  const searchStart = Math.max(0, pcm.length - BYTES_PER_SECOND * SPLIT_SEARCH_SECONDS);
+
+  let bestOffset = pcm.length;
+  let bestEnergy = Infinity;
+
+  for (let offset = searchStart; offset + windowBytes <= pcm.length; offset += windowBytes) {
+    let energy = 0;
+    for (let i = offset; i < offset + windowBytes; i += BYTES_PER_SAMPLE) {
+      energy += Math.abs(pcm.readInt16LE(i));
+    }
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      bestOffset = offset + windowBytes;
+    }
+  }
+
+  return bestOffset - (bestOffset % BYTES_PER_SAMPLE);
+}
+
+/**
+ * Pad a short chunk with trailing silence up to MIN_CHUNK_SECONDS
+ */
+function padChunk(pcm: Buffer): Buffer {
+  const minBytes = Math.ceil(BYTES_PER_SECOND * MIN_CHUNK_SECONDS / BYTES_PER_SAMPLE) * BYTES_PER_SAMPLE;
+  if (pcm.length >= minBytes) return pcm;
+  return Buffer.concat([pcm, Buffer.alloc(minBytes - pcm.length)]);
+}
+
+/**
+ * Queue a chunk for transcription (chunks are processed in order)
+ */
+function enqueueChunk(current: StreamingSession, pcm: Buffer) {
+  const index = current.chunkIndex++;
+  const filePath = chunkFilePath(index);
+  const start = current.queuedBytes / BYTES_PER_SECOND;
+  current.queuedBytes += pcm.length;
+  const end = current.queuedBytes / BYTES_PER_SECOND;
+
+  current.queue = current.queue.then(async () => {
+    if (current.cancelled) return;
+
+    const provider = resolveProvider();
+    if (!provider) {
+      // Leave the gap to the whole-recording fallback, which reports the missing provider
+      console.error(`No provider for chunk ${index}`);
+      current.failed = true;
+      return;
+    }
+
+    try {
+      writeWavFile(filePath, padChunk(pcm));
+      current.chunkFiles.push(filePath);
+
+      const text = await provider.transcribe(filePath);
+      if (current.cancelled) return;
+
+      current.partials[index] = { start, end, text: text.trim() };
+      updateRecordingPartialText(stitchPartials(current).map(partial => partial.text).join(' '));
+    } catch (error) {
+      console.error(`Failed to transcribe chunk ${index}:`, error);
+      current.failed = true;
+    }
+  });
+}
+
+/**
+ * Partial transcripts in chunk order, timed by the chunk boundaries
+ */
+function stitchPartials(current: StreamingSession): TranscriptSegment[] {
+  return current.partials.filter(partial => partial && partial.text);
+}
+
+/**
+ * Delete temporary chunk files
+ */
+function cleanupChunkFiles(current: StreamingSession) {
+  for (const filePath of current.chunkFiles) {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (err) {
+      console.warn('Could not delete chunk file:', filePath, err);
+    }
+  }
+  current.chunkFiles = [];
+}
+
+/**
+ * Begin a new streaming session for the current recording
+ */
+export function startStreamingSession() {
+  session = {
+    pending: [],
+    pendingBytes: 0,
+    chunkIndex: 0,
+    queuedBytes: 0,
+    partials: [],
+    chunkFiles: [],
+    queue: Promise.resolve(),
+    cancelled: false,
+    failed: false
+  };
+}
+
+/**
+ * Check whether a streaming session is running
+ */
+export function isStreamingActive(): boolean {
+  return session !== null;
+}
+
+/**
+ * Feed raw PCM from sox into the session, emitting chunks as they fill up
+ */
+export function pushStreamingAudio(data: Buffer) {
+  if (!session) return;
+
+  session.pending.push(data);
+  session.pendingBytes += data.length;
+
+  const chunkBytes = BYTES_PER_SECOND * STREAMING_CHUNK_SECONDS;
+  if (session.pendingBytes < chunkBytes) return;
+
+  const pcm = Buffer.concat(session.pending);
+  const splitAt = findSplitPoint(pcm);
+  const rest = pcm.subarray(splitAt);
+
+  session.pending = rest.length > 0 ? [rest] : [];
+  session.pendingBytes = rest.length;
+
+  enqueueChunk(session, pcm.subarray(0, splitAt));
+}
+
+/**
+ * Flush the remaining audio, wait for all chunks and return the transcript segments
+ * (none if any chunk failed, so the caller reprocesses the whole recording)
+ */
+export async function finishStreamingSession(): Promise<TranscriptSegment[]> {
+  const current = session;
+  session = null;
+  if (!current) return [];
+
+  // Send the tail however short, so a final word is not lost
+  if (current.pendingBytes > 0) {
+    enqueueChunk(current, Buffer.concat(current.pending));
+  }
+  current.pending = [];
+  current.pendingBytes = 0;
+
+  try {
+    await current.queue;
+    return current.failed ? [] : stitchPartials(current);
+  } finally {
+    cleanupChunkFiles(current);
+  }
+}
+
+/**
+ * Abort the session and discard partial results
+ */
+export async function cancelStreamingSession() {
+  const current = session;
+  session = null;
+  if (!current) return;
+
+  current.cancelled = true;
+  await current.queue;
+  cleanupChunkFiles(current);
+}
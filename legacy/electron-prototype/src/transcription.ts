@@ -0,0 +1,431 @@
+import { translationTargetLanguage, translationKeepSource } from './state';
+import {
+  SYSTEM_INSTRUCTION,
+  VIDEO_SYSTEM_INSTRUCTION,
+  TRANSCRIPTION_INSTRUCTION,
+  REWRITE_INSTRUCTION,
+  TRANSLATION_INSTRUCTION,
+  SEGMENT_SECONDS,
+  SEGMENT_OVERLAP_SECONDS
+} from './config';
+import {
+  MediaInput, TranscriptionProvider, TranscriptSegment, ProgressCallback, resolveProvider, getActiveProvider
+} from './providers';
+import { updateStatus } from './windows';
+import { getCurrentModeDefinition, DictationMode } from './modes';
+import { withVocabularyHints } from './dictionary';
+import { wavDurationSeconds } from './wav';
+import { splitAudioFile, removeSegmentFiles, mergeTranscripts, mergeTranscriptParts } from './segments';
+import { AppError, withRetry } from './errors';
+
+const TRANSCRIPT_PROMPT = 'The following text is a transcript of the recorded audio. Apply the instructions to it.';
+
+/**
+ * Instruction, prompt and generation settings for a request
+ */
+interface PromptSettings {
+  instruction: string;
+  prompt: string;
+  temperature?: number;
+  model?: string;
+}
+
+/**
+ * Result of processing a recording
+ */
+export interface TranscriptionResult {
+  // Final text (empty when processing failed)
+  text: string;
+  // Verbatim transcript when one was produced separately from the rewrite
+  rawText: string;
+  providerId: string;
+  // Timing of the verbatim transcript (absent when the provider returned text only)
+  segments?: TranscriptSegment[];
+}
+
+/**
+ * Transcript text with the timing of its segments
+ */
+interface TimedTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+  // Segment times came from the provider rather than the file length
+  timed: boolean;
+}
+
+/**
+ * Receives progress text while a recording is processed
+ */
+export type StatusCallback = (detail: string) => void;
+
+// Recordings made in the app report progress in the main window status
+const showProcessingStatus: StatusCallback = (detail) => updateStatus('processing', detail);
+
+/**
+ * Get the provider for the next request or explain why there is none
+ */
+function requireProvider(): TranscriptionProvider {
+  const provider = resolveProvider();
+  if (!provider) {
+    const active = getActiveProvider();
+    const message = active && active.id === 'local'
+      ? 'The local Whisper binary or model is missing (cloud fallback is off)'
+      : 'No provider is configured';
+    throw new AppError('missing-key', active ? active.label : 'Transcription', message);
+  }
+  return provider;
+}
+
+/**
+ * Call a provider, retrying transient failures and showing the wait
+ */
+function callProvider<T>(
+  provider: TranscriptionProvider,
+  request: () => Promise<T>,
+  onStatus: StatusCallback
+): Promise<T> {
+  return withRetry(provider.label, request, (_attempt, delayMs) => {
+    onStatus(`${provider.label} is busy, retrying in ${Math.ceil(delayMs / 1000)}s...`);
+  });
+}
+
+/**
+ * Fail with an empty-response error when processing produced no text
+ */
+function requireText(provider: TranscriptionProvider, result: TranscriptionResult): TranscriptionResult {
+  if (!result.text.trim()) {
+    throw new AppError('empty-response', provider.label);
+  }
+  return result;
+}
+
+/**
+ * Build the prompt for a mode, including vocabulary hints
+ */
+function buildPrompt(media: MediaInput, mode: DictationMode): PromptSettings {
+  const settings = selectPrompt(media, mode);
+  return { ...settings, instruction: withVocabularyHints(settings.instruction) };
+}
+
+/**
+ * Pick the system instruction and user prompt for a mode
+ */
+function selectPrompt(media: MediaInput, mode: DictationMode): PromptSettings {
+  if (!mode.builtin) {
+    return {
+      instruction: mode.systemInstruction,
+      prompt: mode.userPrompt,
+      temperature: mode.temperature,
+      model: mode.model
+    };
+  }
+
+  if (media.videoPath) {
+    return {
+      instruction: VIDEO_SYSTEM_INSTRUCTION,
+      prompt: media.audioPath
+        ? 'Analyze the provided screen recording along with the spoken audio. Use the visual context from the video to better understand what I\'m discussing and create a well-structured, clear prompt. The video shows what was on my screen while I was speaking.'
+        : 'Analyze the provided video recording. Create a well-structured, clear prompt based on the visual context shown on the screen.'
+    };
+  }
+
+  const hasFrames = (media.videoFrames || []).length > 0;
+
+  // Translation starts from a plain transcript
+  if (mode.id === 'transcription' || mode.id === 'translation') {
+    return { instruction: TRANSCRIPTION_INSTRUCTION, prompt: 'Transcribe this audio.' };
+  }
+
+  return hasFrames
+    ? {
+      instruction: VIDEO_SYSTEM_INSTRUCTION,
+      prompt: 'Analyze the provided screen recording frames along with the audio. Use the visual context to better understand what I\'m discussing and create a well-structured, clear prompt. The frames show what was on my screen while I was speaking.'
+    }
+    : {
+      instruction: SYSTEM_INSTRUCTION,
+      prompt: 'Transcribe and rewrite this audio for better clarity and organization.'
+    };
+}
+
+/**
+ * Whether audio is too long to send in a single request
+ */
+function needsSegmenting(audioPath?: string): boolean {
+  return Boolean(audioPath) && wavDurationSeconds(audioPath as string) > SEGMENT_SECONDS;
+}
+
+/**
+ * Transcribe one file, shifting segment times by offset seconds
+ *
+ * Providers without timestamps return the whole file as one segment.
+ */
+async function transcribeFile(
+  provider: TranscriptionProvider,
+  audioPath: string,
+  offset: number,
+  onProgress: ProgressCallback,
+  onStatus: StatusCallback
+): Promise<TimedTranscript> {
+  if (provider.capabilities.timestamps && provider.transcribeSegments) {
+    const transcribeSegments = provider.transcribeSegments;
+    const segments = (await callProvider(provider, () => transcribeSegments(audioPath, onProgress), onStatus))
+      .map(segment => ({ start: segment.start + offset, end: segment.end + offset, text: segment.text.trim() }))
+      .filter(segment => segment.text);
+    return { text: segments.map(segment => segment.text).join(' '), segments, timed: true };
+  }
+
+  const text = (await callProvider(provider, () => provider.transcribe(audioPath, onProgress), onStatus)).trim();
+  return {
+    text,
+    segments: text ? [{ start: offset, end: offset + wavDurationSeconds(audioPath), text }] : [],
+    timed: false
+  };
+}
+
+/**
+ * Join the transcripts of overlapping parts
+ *
+ * With provider timestamps, segments centred in the overlap are dropped from
+ * the later part; otherwise each part keeps the words left after removing
+ * the repeated ones.
+ */
+function joinParts(parts: TimedTranscript[]): TimedTranscript {
+  const texts = parts.map(part => part.text);
+
+  if (parts.every(part => part.timed)) {
+    const segments: TranscriptSegment[] = [];
+    for (const part of parts) {
+      const lastEnd = segments.length > 0 ? segments[segments.length - 1].end : 0;
+      segments.push(...part.segments.filter(segment => (segment.start + segment.end) / 2 >= lastEnd));
+    }
+    return { text: mergeTranscripts(texts), segments, timed: true };
+  }
+
+  const kept = mergeTranscriptParts(texts);
+  const segments = parts
+    .map((part, i) => part.segments.length > 0 && kept[i]
+      ? {
+        start: part.segments[0].start + (i > 0 ? SEGMENT_OVERLAP_SECONDS : 0),
+        end: part.segments[part.segments.length - 1].end,
+        text: kept[i]
+      }
+      : null)
+    .filter((segment): segment is TranscriptSegment => segment !== null);
+  return { text: kept.filter(Boolean).join(' '), segments, timed: false };
+}
+
+/**
+ * Transcribe audio, splitting long recordings into overlapping segments
+ */
+async function transcribeAudio(
+  provider: TranscriptionProvider,
+  audioPath: string,
+  onStatus: StatusCallback
+): Promise<TimedTranscript> {
+  if (!needsSegmenting(audioPath)) {
+    return transcribeFile(provider, audioPath, 0, (percent) => {
+      onStatus(`Transcribing with ${provider.label}... ${percent}%`);
+    }, onStatus);
+  }
+
+  const files = splitAudioFile(audioPath, SEGMENT_SECONDS, SEGMENT_OVERLAP_SECONDS);
+  console.log(`Long recording: transcribing ${files.length} segments with ${provider.label}`);
+
+  try {
+    const parts: TimedTranscript[] = [];
+    for (let i = 0; i < files.length; i++) {
+      const label = `Transcribing part ${i + 1} of ${files.length}`;
+      onStatus(`${label}...`);
+
+      const offset = i * (SEGMENT_SECONDS - SEGMENT_OVERLAP_SECONDS);
+      const part = await transcribeFile(provider, files[i], offset, (percent) => {
+        onStatus(`${label}... ${percent}%`);
+      }, onStatus);
+      if (!part.text) {
+        console.warn(`Segment ${i + 1} produced no text`);
+      }
+      parts.push(part);
+    }
+    return joinParts(parts);
+  } finally {
+    removeSegmentFiles(files);
+  }
+}
+
+/**
+ * Process a recording with the active provider (in the current mode by default)
+ *
+ * Multimodal providers receive the media in a single request. Other providers,
+ * and recordings too long for one request, transcribe the audio first and then
+ * rewrite the transcript as text.
+ */
+export async function processRecording(
+  input: MediaInput,
+  mode: DictationMode = getCurrentModeDefinition(),
+  onStatus: StatusCallback = showProcessingStatus
+): Promise<TranscriptionResult> {
+  const long = needsSegmenting(input.audioPath);
+  if (long && (input.videoPath || (input.videoFrames || []).length > 0)) {
+    console.warn('Recording is too long to send with video; using the audio only');
+  }
+
+  // Modes that do not allow video only ever send the audio
+  const media = mode.allowVideo && !long ? input : { audioPath: input.audioPath };
+
+  const provider = requireProvider();
+  console.log(`Processing with ${provider.label}...`);
+
+  if (provider.capabilities.multimodal && provider.generate && !long) {
+    const generate = provider.generate;
+    const text = await callProvider(provider, () => generate({ ...buildPrompt(media, mode), media }), onStatus);
+    return requireText(provider, await applyTranslation(provider, mode, {
+      text,
+      rawText: mode.id === 'transcription' || mode.id === 'translation' ? text : '',
+      providerId: provider.id
+    }, onStatus));
+  }
+
+  if (!media.audioPath) {
+    throw new AppError('unknown', provider.label, 'Cannot process video without audio');
+  }
+
+  const transcript = await transcribeAudio(provider, media.audioPath, onStatus);
+  if (!transcript.text) {
+    throw new AppError('empty-response', provider.label);
+  }
+
+  return requireText(provider, await applyTranslation(provider, mode, {
+    text: await refineTranscript(provider, mode, transcript.text, onStatus),
+    rawText: transcript.text,
+    providerId: provider.id,
+    segments: transcript.segments
+  }, onStatus));
+}
+
+/**
+ * Translate the transcript into the target language (translation mode only)
+ */
+async function applyTranslation(
+  provider: TranscriptionProvider,
+  mode: DictationMode,
+  result: TranscriptionResult,
+  onStatus: StatusCallback
+): Promise<TranscriptionResult> {
+  if (mode.id !== 'translation' || !result.text) {
+    return result;
+  }
+
+  if (!provider.capabilities.refine) {
+    throw new AppError('unknown', provider.label, 'This provider cannot translate text');
+  }
+
+  onStatus(`Translating to ${translationTargetLanguage}...`);
+  const translation = await callProvider(provider, () => provider.refine({
+    instruction: withVocabularyHints(TRANSLATION_INSTRUCTION.replace('{language}', translationTargetLanguage)),
+    prompt: `Translate this text into ${translationTargetLanguage}.`,
+    text: result.text
+  }), onStatus);
+
+  if (!translation) {
+    return { ...result, text: '' };
+  }
+
+  return {
+    ...result,
+    text: translationKeepSource ? `${result.text}\n\n${translation}` : translation,
+    rawText: result.text
+  };
+}
+
+/**
+ * Rewrite a transcript as text using the audio-only instruction
+ */
+async function refineTranscript(
+  provider: TranscriptionProvider,
+  mode: DictationMode,
+  transcript: string,
+  onStatus: StatusCallback
+): Promise<string> {
+  if (!transcript || !provider.capabilities.refine) {
+    return transcript;
+  }
+
+  // Visual context cannot be sent, so use the audio-only instruction
+  const settings = buildPrompt({}, mode);
+
+  return callProvider(provider, () => provider.refine({
+    ...settings,
+    prompt: mode.builtin
+      ? TRANSCRIPT_PROMPT
+      : `${settings.prompt}\n\nThe audio was transcribed to text; the transcript follows.`,
+    text: transcript
+  }), onStatus);
+}
+
+/**
+ * Turn a transcript stitched from streaming chunks into the final result
+ *
+ * Chunks are already cleaned up by the provider, so transcription mode returns
+ * them as-is, translation mode only translates and every other mode rewrites.
+ */
+export async function processTranscript(
+  transcript: string,
+  mode: DictationMode = getCurrentModeDefinition(),
+  onStatus: StatusCallback = showProcessingStatus
+): Promise<TranscriptionResult> {
+  const provider = resolveProvider();
+  const providerId = provider ? provider.id : '';
+
+  if (!provider || !transcript || mode.id === 'transcription') {
+    return { text: transcript, rawText: transcript, providerId };
+  }
+
+  if (mode.id === 'translation') {
+    return applyTranslation(provider, mode, { text: transcript, rawText: transcript, providerId }, onStatus);
+  }
+
+  return {
+    text: (await refineTranscript(provider, mode, transcript, onStatus)) || transcript,
+    rawText: transcript,
+    providerId
+  };
+}
+
+/**
+ * Apply a spoken instruction (recorded audio) to selected text
+ */
+export async function processRewrite(
+  audioPath: string,
+  selection: string,
+  onStatus: StatusCallback = showProcessingStatus
+): Promise<TranscriptionResult> {
+  const provider = requireProvider();
+
+  if (!provider.capabilities.refine) {
+    throw new AppError('unknown', provider.label, 'This provider cannot rewrite text; choose a cloud provider');
+  }
+
+  const instruction = withVocabularyHints(REWRITE_INSTRUCTION);
+
+  if (provider.capabilities.multimodal && provider.generate && !needsSegmenting(audioPath)) {
+    const generate = provider.generate;
+    const text = await callProvider(provider, () => generate({
+      instruction,
+      prompt: `The audio contains my instruction. Apply it to this selected text:\n\n${selection}`,
+      media: { audioPath }
+    }), onStatus);
+    return requireText(provider, { text, rawText: '', providerId: provider.id });
+  }
+
+  const spoken = (await transcribeAudio(provider, audioPath, onStatus)).text;
+  if (!spoken) {
+    throw new AppError('empty-response', provider.label);
+  }
+
+  const text = await callProvider(provider, () => provider.refine({
+    instruction,
+    prompt: `Instruction: ${spoken}\n\nSelected text:`,
+    text: selection
+  }), onStatus);
+  return requireText(provider, { text, rawText: spoken, providerId: provider.id });
+}
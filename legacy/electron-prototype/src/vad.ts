@@ -0,0 +1,130 @@
+import { SAMPLE_RATE, BYTES_PER_SAMPLE } from './wav';
+
+// Analysis frame length
+const FRAME_MS = 30;
+const FRAME_SAMPLES = Math.round(SAMPLE_RATE * FRAME_MS / 1000);
+// Frames used to measure background noise right after recording starts
+const CALIBRATION_FRAMES = 10;
+// Nothing quieter than this counts as speech (dBFS)
+const MIN_SPEECH_DB = -50;
+// How far above the background noise speech has to be
+const SPEECH_MARGIN_DB = 12;
+// Hiss and fan noise cross zero far more often than speech (crossings per sample)
+const MAX_SPEECH_ZCR = 0.35;
+// Consecutive speech frames needed before sound counts as speech (ignores clicks)
+const SPEECH_ONSET_FRAMES = 4;
+// Total speech needed for a recording to count as containing speech
+const MIN_SPEECH_MS = 250;
+// How quickly the noise floor follows louder background noise
+const NOISE_RISE_RATE = 0.005;
+const NOISE_ADAPT_RATE = 0.05;
+
+export interface VadOptions {
+  // Trailing silence after speech that triggers onSilence
+  silenceMs: number;
+  onSilence?: () => void;
+}
+
+export interface VoiceActivityDetector {
+  push(pcm: Buffer): void;
+  hasSpeech(): boolean;
+}
+
+/**
+ * Level (dBFS) and zero-crossing rate of one frame of 16-bit samples
+ */
+export function analyzeFrame(samples: Int16Array): { levelDb: number; zcr: number } {
+  let sumSquares = 0;
+  let crossings = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+      crossings++;
+    }
+  }
+
+  const rms = Math.sqrt(sumSquares / samples.length) / 32768;
+  return {
+    levelDb: rms > 0 ? 20 * Math.log10(rms) : -100,
+    zcr: crossings / samples.length
+  };
+}
+
+/**
+ * Create an energy/zero-crossing voice activity detector for the sox PCM stream
+ *
+ * The background noise level is measured over the first few frames and then
+ * tracked slowly, so a steady fan or hum is not mistaken for speech.
+ */
+export function createVoiceActivityDetector(options: VadOptions): VoiceActivityDetector {
+  const silenceFrames = Math.ceil(options.silenceMs / FRAME_MS);
+  let remainder = Buffer.alloc(0);
+  const calibrationLevels: number[] = [];
+  let noiseFloorDb = MIN_SPEECH_DB - SPEECH_MARGIN_DB;
+  let onsetRun = 0;
+  let speechFrames = 0;
+  let silenceRun = 0;
+  let silenceReported = false;
+
+  const processFrame = (samples: Int16Array) => {
+    const { levelDb, zcr } = analyzeFrame(samples);
+
+    if (calibrationLevels.length < CALIBRATION_FRAMES) {
+      calibrationLevels.push(levelDb);
+      if (calibrationLevels.length === CALIBRATION_FRAMES) {
+        noiseFloorDb = Math.min(...calibrationLevels);
+      }
+      return;
+    }
+
+    const threshold = Math.max(MIN_SPEECH_DB, noiseFloorDb + SPEECH_MARGIN_DB);
+    const isSpeech = levelDb > threshold && zcr < MAX_SPEECH_ZCR;
+
+    // Follow quieter noise at once, louder noise slowly
+    if (levelDb < noiseFloorDb) {
+      noiseFloorDb = levelDb;
+    } else {
+      noiseFloorDb += (levelDb - noiseFloorDb) * (isSpeech ? NOISE_RISE_RATE : NOISE_ADAPT_RATE);
+    }
+
+    if (isSpeech) {
+      onsetRun++;
+      if (onsetRun >= SPEECH_ONSET_FRAMES) {
+        speechFrames += onsetRun === SPEECH_ONSET_FRAMES ? SPEECH_ONSET_FRAMES : 1;
+        silenceRun = 0;
+        silenceReported = false;
+      }
+      return;
+    }
+
+    onsetRun = 0;
+    if (speechFrames === 0) return;
+
+    silenceRun++;
+    if (silenceRun >= silenceFrames && !silenceReported) {
+      silenceReported = true;
+      options.onSilence?.();
+    }
+  };
+
+  return {
+    push: (pcm: Buffer) => {
+      const data = remainder.length > 0 ? Buffer.concat([remainder, pcm]) : pcm;
+      const frameBytes = FRAME_SAMPLES * BYTES_PER_SAMPLE;
+      let offset = 0;
+
+      for (; offset + frameBytes <= data.length; offset += frameBytes) {
+        const samples = new Int16Array(FRAME_SAMPLES);
+        for (let i = 0; i < FRAME_SAMPLES; i++) {
+          samples[i] = data.readInt16LE(offset + i * BYTES_PER_SAMPLE);
+        }
+        processFrame(samples);
+      }
+
+      remainder = Buffer.from(data.subarray(offset));
+    },
+
+    hasSpeech: () => speechFrames * FRAME_MS >= MIN_SPEECH_MS
+  };
+}
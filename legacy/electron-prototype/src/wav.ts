@@ -0,0 +1,138 @@
+import fs from 'fs';
+
+// Recording format produced by sox (16 kHz, mono, 16-bit signed little-endian)
+export const SAMPLE_RATE = 16000;
+export const CHANNELS = 1;
+export const BYTES_PER_SAMPLE = 2;
+export const BYTES_PER_SECOND = SAMPLE_RATE * CHANNELS * BYTES_PER_SAMPLE;
+
+const HEADER_SIZE = 44;
+
+/**
+ * Incremental WAV file writer
+ */
+export interface WavWriter {
+  write(chunk: Buffer): void;
+  close(): void;
+  bytesWritten(): number;
+}
+
+/**
+ * Build a PCM WAV header for the given data length
+ */
+export function createWavHeader(dataLength: number): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(CHANNELS, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(BYTES_PER_SECOND, 28);
+  header.writeUInt16LE(CHANNELS * BYTES_PER_SAMPLE, 32);
+  header.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataLength, 40);
+  return header;
+}
+
+/**
+ * Write raw PCM to a complete WAV file
+ */
+export function writeWavFile(filePath: string, pcm: Buffer) {
+  fs.writeFileSync(filePath, Buffer.concat([createWavHeader(pcm.length), pcm]));
+}
+
+/**
+ * Read the PCM data of a WAV file (the data chunk, without the header)
+ */
+export function readWavPcm(filePath: string): Buffer {
+  const file = fs.readFileSync(filePath);
+
+  // Walk the chunks instead of assuming a 44-byte header
+  let offset = 12;
+  while (offset + 8 <= file.length) {
+    const id = file.toString('ascii', offset, offset + 4);
+    const size = file.readUInt32LE(offset + 4);
+    if (id === 'data') {
+      // Size is 0 when the header was never patched (e.g. after a crash)
+      return file.subarray(offset + 8, size > 0 ? offset + 8 + size : file.length);
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  return file.subarray(Math.min(HEADER_SIZE, file.length));
+}
+
+/**
+ * Whether a file is a PCM WAV in the recording format (no conversion needed)
+ */
+export function isRecordingFormat(filePath: string): boolean {
+  const header = Buffer.alloc(4096);
+  let length = 0;
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    length = fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (length < 12 || header.toString('ascii', 0, 4) !== 'RIFF' || header.toString('ascii', 8, 12) !== 'WAVE') {
+    return false;
+  }
+
+  let offset = 12;
+  while (offset + 8 <= length) {
+    const id = header.toString('ascii', offset, offset + 4);
+    const size = header.readUInt32LE(offset + 4);
+    if (id === 'fmt ' && offset + 24 <= length) {
+      return header.readUInt16LE(offset + 8) === 1
+        && header.readUInt16LE(offset + 10) === CHANNELS
+        && header.readUInt32LE(offset + 12) === SAMPLE_RATE
+        && header.readUInt16LE(offset + 22) === BYTES_PER_SAMPLE * 8;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return false;
+}
+
+/**
+ * Duration of a WAV file in the recording format, from its size
+ */
+export function wavDurationSeconds(filePath: string): number {
+  const size = fs.statSync(filePath).size;
+  return Math.max(0, size - HEADER_SIZE) / BYTES_PER_SECOND;
+}
+
+/**
+ * Open a WAV file for streaming writes; sizes are patched into the header on close
+ */
+export function createWavWriter(filePath: string): WavWriter {
+  const fd = fs.openSync(filePath, 'w');
+  let dataLength = 0;
+  let closed = false;
+
+  fs.writeSync(fd, createWavHeader(0));
+
+  return {
+    write: (chunk: Buffer) => {
+      if (closed) return;
+      fs.writeSync(fd, chunk);
+      dataLength += chunk.length;
+    },
+
+    close: () => {
+      if (closed) return;
+      closed = true;
+      try {
+        fs.writeSync(fd, createWavHeader(dataLength), 0, HEADER_SIZE, 0);
+      } finally {
+        fs.closeSync(fd);
+      }
+    },
+
+    bytesWritten: () => dataLength
+  };
+}
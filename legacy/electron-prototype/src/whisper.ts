@@ -0,0 +1,154 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { localModelPath } from './state';
+import { WHISPER_EXECUTABLE, WHISPER_LANGUAGE, whisperDir, isWindows } from './config';
+import { TranscriptionProvider, ProgressCallback, TranscriptSegment } from './providers';
+import { AppError, toAppError } from './errors';
+
+const WHISPER_LABEL = 'Local Whisper';
+
+/**
+ * Resolve an executable path, searching PATH for bare command names
+ */
+function findExecutable(command: string): string | null {
+  if (path.isAbsolute(command) || command.includes(path.sep)) {
+    return fs.existsSync(command) ? command : null;
+  }
+
+  const extensions = isWindows ? ['.exe', '.cmd', ''] : [''];
+  const dirs = (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+
+  for (const dir of dirs) {
+    for (const ext of extensions) {
+      const candidate = path.join(dir, command + ext);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check that both the whisper binary and the model file exist
+ */
+export function getLocalWhisperStatus(): { executable: string | null; modelPath: string; modelFound: boolean } {
+  return {
+    executable: findExecutable(WHISPER_EXECUTABLE),
+    modelPath: localModelPath,
+    modelFound: fs.existsSync(localModelPath)
+  };
+}
+
+/**
+ * Run whisper.cpp on a 16 kHz mono WAV file and return the timed transcript
+ */
+async function transcribeLocally(audioPath: string, onProgress?: ProgressCallback): Promise<TranscriptSegment[]> {
+  const { executable, modelFound } = getLocalWhisperStatus();
+  if (!executable) {
+    console.error('Whisper executable not found:', WHISPER_EXECUTABLE);
+    throw new AppError('missing-key', WHISPER_LABEL, `Executable not found: ${WHISPER_EXECUTABLE}`);
+  }
+  if (!modelFound) {
+    console.error('Whisper model not found:', localModelPath);
+    throw new AppError('missing-key', WHISPER_LABEL, `Model not found: ${localModelPath}`);
+  }
+
+  // whisper.cpp appends .json to the output base name; a unique temp name keeps
+  // batch files (which may sit in read-only folders) from colliding
+  const outputBase = path.join(os.tmpdir(), `clarifyvoice_whisper_${crypto.randomUUID()}`);
+  const outputPath = `${outputBase}.json`;
+
+  const args = [
+    '-m', localModelPath,
+    '-f', audioPath,
+    '-l', WHISPER_LANGUAGE,
+    '-t', String(Math.max(1, os.cpus().length - 1)),
+    '-nt',
+    '-pp',
+    '-oj',
+    '-of', outputBase
+  ];
+
+  console.log('Starting whisper with args:', args.join(' '));
+
+  const spawnOptions: any = { windowsHide: true };
+  if (isWindows && fs.existsSync(whisperDir)) {
+    spawnOptions.cwd = whisperDir;
+  }
+
+  try {
+    const code = await new Promise<number | null>((resolve, reject) => {
+      const proc = spawn(executable, args, spawnOptions);
+
+      proc.stderr?.on('data', (data) => {
+        // Progress lines look like "whisper_print_progress_callback: progress =  40%"
+        const match = /progress\s*=\s*(\d+)%/.exec(data.toString());
+        if (match) {
+          onProgress?.(Number(match[1]));
+        }
+      });
+
+      proc.on('error', reject);
+      proc.on('close', resolve);
+    });
+
+    if (code !== 0) {
+      console.error('whisper exited with error code:', code);
+      throw new AppError('unknown', WHISPER_LABEL, `whisper-cli exited with code ${code}`);
+    }
+
+    if (!fs.existsSync(outputPath)) {
+      console.error('Whisper did not write a transcript:', outputPath);
+      throw new AppError('unknown', WHISPER_LABEL, 'No transcript was written');
+    }
+
+    // Offsets are in milliseconds
+    const data = JSON.parse(fs.readFileSync(outputPath, 'utf-8'));
+    return (Array.isArray(data.transcription) ? data.transcription : [])
+      .map((segment: any) => ({
+        start: (Number(segment.offsets?.from) || 0) / 1000,
+        end: (Number(segment.offsets?.to) || 0) / 1000,
+        text: String(segment.text || '').trim()
+      }))
+      .filter((segment: TranscriptSegment) => segment.text);
+  } catch (error) {
+    console.error('Local Whisper Error:', error);
+    throw toAppError(error, WHISPER_LABEL);
+  } finally {
+    try {
+      if (fs.existsSync(outputPath)) {
+        fs.unlinkSync(outputPath);
+      }
+    } catch (err) {
+      console.warn('Could not delete whisper output:', err);
+    }
+  }
+}
+
+/**
+ * Create the offline whisper.cpp provider
+ */
+export function createLocalWhisperProvider(): TranscriptionProvider {
+  return {
+    id: 'local',
+    label: WHISPER_LABEL,
+    capabilities: { transcribe: true, refine: false, multimodal: false, timestamps: true },
+
+    isConfigured: () => {
+      const { executable, modelFound } = getLocalWhisperStatus();
+      return Boolean(executable) && modelFound;
+    },
+
+    transcribe: async (audioPath: string, onProgress?: ProgressCallback) =>
+      (await transcribeLocally(audioPath, onProgress)).map(segment => segment.text).join(' '),
+
+    transcribeSegments: (audioPath: string, onProgress?: ProgressCallback) => transcribeLocally(audioPath, onProgress),
+
+    // Offline provider has no language model, so the transcript is returned as-is
+    refine: async (request) => request.text
+  };
+}
@@ -1,17 +1,30 @@
-import { app, BrowserWindow, screen, Tray, Menu, nativeImage, globalShortcut } from 'electron';
+import { app, BrowserWindow, screen, Tray, Menu, nativeImage, Notification } from 'electron';
 import path from 'path';
 import {
-  mainWindow, recordingWindow, tray, isRecording,
+  mainWindow, recordingWindow, tray, isRecording, currentMode, pushToTalkEnabled,
+  translationTargetLanguage, translationKeepSource,
   setMainWindow, setRecordingWindow, setTray,
   setRecordingStartTime, setRecordingTimerInterval,
   recordingTimerInterval, wasWindowVisibleBeforeRecording,
   setWasWindowVisibleBeforeRecording
 } from './state';
-import { appRoot } from './config';
+import { appRoot, TRANSLATION_LANGUAGES } from './config';
+import { listHistory, repasteHistoryEntry, onHistoryChanged } from './history';
+import { listModes, selectMode } from './modes';
+import { getHotkeyBindings, registerCancelHotkey, unregisterCancelHotkey } from './hotkeys';
+import { updateSettings, onSettingsChanged } from './settings';
+import { AudioLevel } from './meter';
+import { AppError, toErrorReport } from './errors';
+import { listQueue, removeQueuedRecording, onQueueChanged } from './queue';
+
+// Number of entries shown in the tray's Recent submenu
+const TRAY_RECENT_COUNT = 10;
 
 // Callback for toggle recording (set by recording module to avoid circular deps)
 let toggleRecordingCallback: (() => void) | null = null;
 let cancelRecordingCallback: (() => void) | null = null;
+let rewriteSelectionCallback: (() => void) | null = null;
+let retryQueueCallback: ((id?: string) => void) | null = null;
 
 export function setToggleRecordingCallback(cb: () => void) {
   toggleRecordingCallback = cb;
@@ -21,6 +34,14 @@ export function setCancelRecordingCallback(cb: () => void) {
   cancelRecordingCallback = cb;
 }
 
+export function setRewriteSelectionCallback(cb: () => void) {
+  rewriteSelectionCallback = cb;
+}
+
+export function setRetryQueueCallback(cb: (id?: string) => void) {
+  retryQueueCallback = cb;
+}
+
 /**
  * Create the main application window
  */
@@ -114,33 +135,156 @@ export function updateTrayIcon(recording: boolean) {
 }
 
 /**
- * Create system tray
+ * Build the Recent submenu from transcript history
  */
-export function createTray() {
-  const newTray = new Tray(createTrayIcon(false));
+function buildRecentMenu(): Electron.MenuItemConstructorOptions[] {
+  const recent = listHistory(TRAY_RECENT_COUNT);
+  if (recent.length === 0) {
+    return [{ label: 'No recent transcriptions', enabled: false }];
+  }
+
+  return recent.map(entry => {
+    const text = entry.refinedText.replace(/\s+/g, ' ').trim();
+    return {
+      label: text.length > 50 ? text.substring(0, 50) + '…' : text,
+      click: () => { repasteHistoryEntry(entry.id); }
+    };
+  });
+}
+
+/**
+ * Build the Retry Queue submenu (failed recordings waiting to be processed)
+ */
+function buildQueueMenu(): Electron.MenuItemConstructorOptions[] {
+  const queued = listQueue();
+  return [
+    {
+      label: 'Retry All',
+      click: () => retryQueueCallback?.()
+    },
+    { type: 'separator' },
+    ...queued.map(item => ({
+      label: `${new Date(item.timestamp).toLocaleString()} (${Math.round(item.duration)}s)`,
+      submenu: [
+        { label: item.lastError.message, enabled: false },
+        { label: 'Retry', click: () => retryQueueCallback?.(item.id) },
+        { label: 'Discard', click: () => { removeQueuedRecording(item.id); } }
+      ]
+    }))
+  ];
+}
+
+/**
+ * Build the Mode submenu (radio items for every mode)
+ */
+function buildModeMenu(): Electron.MenuItemConstructorOptions[] {
+  return listModes().map(mode => ({
+    label: mode.name,
+    type: 'radio' as const,
+    checked: mode.id === currentMode,
+    click: () => { selectMode(mode.id); }
+  }));
+}
+
+/**
+ * Build the Translate To submenu (target language and keep-source option)
+ */
+function buildTranslationMenu(): Electron.MenuItemConstructorOptions[] {
+  // Include a custom language set from the main window
+  const languages = TRANSLATION_LANGUAGES.includes(translationTargetLanguage)
+    ? TRANSLATION_LANGUAGES
+    : [...TRANSLATION_LANGUAGES, translationTargetLanguage];
+
+  return [
+    ...languages.map(language => ({
+      label: language,
+      type: 'radio' as const,
+      checked: language === translationTargetLanguage,
+      click: () => { updateSettings({ translation: { targetLanguage: language } }); }
+    })),
+    { type: 'separator' },
+    {
+      label: 'Keep Source Text',
+      type: 'checkbox',
+      checked: translationKeepSource,
+      click: (item) => { updateSettings({ translation: { keepSource: item.checked } }); }
+    }
+  ];
+}
 
-  const contextMenu = Menu.buildFromTemplate([
+/**
+ * Build the tray context menu
+ */
+function buildTrayMenu() {
+  const hotkeys = getHotkeyBindings();
+  const withHotkey = (label: string, accelerator: string) => accelerator ? `${label} (${accelerator})` : label;
+
+  return Menu.buildFromTemplate([
     {
-      label: 'Show/Hide (Alt+R)',
+      label: withHotkey('Show/Hide', hotkeys.toggleWindow),
       click: () => toggleMainWindow()
     },
     {
-      label: 'Start/Stop Recording (Alt+L)',
+      label: withHotkey('Start/Stop Recording', hotkeys.toggleRecording),
       click: () => toggleRecordingCallback?.()
     },
+    {
+      label: withHotkey('Rewrite Selection', hotkeys.rewriteSelection),
+      click: () => rewriteSelectionCallback?.()
+    },
+    {
+      label: 'Push to Talk',
+      type: 'checkbox',
+      checked: pushToTalkEnabled,
+      click: (item) => { updateSettings({ pushToTalk: item.checked }); }
+    },
+    {
+      label: 'Mode',
+      submenu: buildModeMenu()
+    },
+    {
+      label: 'Translate To',
+      submenu: buildTranslationMenu()
+    },
+    {
+      label: 'Recent',
+      submenu: buildRecentMenu()
+    },
+    ...(listQueue().length > 0
+      ? [{ label: `Retry Queue (${listQueue().length})`, submenu: buildQueueMenu() }]
+      : []),
     { type: 'separator' },
     {
       label: 'Quit',
       click: () => app.quit()
     }
   ]);
+}
+
+/**
+ * Rebuild the tray menu (after history or settings change)
+ */
+export function refreshTrayMenu() {
+  if (tray) {
+    tray.setContextMenu(buildTrayMenu());
+  }
+}
+
+/**
+ * Create system tray
+ */
+export function createTray() {
+  const newTray = new Tray(createTrayIcon(false));
 
   newTray.setToolTip('ClarifyVoice');
-  newTray.setContextMenu(contextMenu);
+  newTray.setContextMenu(buildTrayMenu());
 
   newTray.on('click', () => toggleMainWindow());
 
   setTray(newTray);
+  onHistoryChanged(() => refreshTrayMenu());
+  onSettingsChanged(() => refreshTrayMenu());
+  onQueueChanged(() => refreshTrayMenu());
   return newTray;
 }
 
@@ -159,11 +303,11 @@ export function toggleMainWindow() {
 }
 
 /**
- * Update main window status
+ * Update main window status (detail is optional progress text)
  */
-export function updateStatus(status: 'ready' | 'recording' | 'processing') {
+export function updateStatus(status: 'ready' | 'recording' | 'processing', detail?: string) {
   if (mainWindow) {
-    mainWindow.webContents.send('update-status', status);
+    mainWindow.webContents.send('update-status', status, detail);
   }
 }
 
@@ -176,10 +320,58 @@ export function playSound(frequency: number, duration: number) {
   }
 }
 
+/**
+ * Show a system notification (the main window is usually hidden)
+ */
+function notify(body: string) {
+  if (Notification.isSupported()) {
+    new Notification({ title: 'ClarifyVoice', body, silent: true }).show();
+  }
+}
+
+/**
+ * Show a warning in the main window and as a system notification
+ */
+export function showWarning(message: string) {
+  if (mainWindow) {
+    mainWindow.webContents.send('show-warning', message);
+  }
+  notify(message);
+}
+
+/**
+ * Show an informational message in the main window and as a system notification
+ */
+export function showInfo(message: string) {
+  if (mainWindow) {
+    mainWindow.webContents.send('show-info', message);
+  }
+  notify(message);
+}
+
+/**
+ * Report a failure in the main window and as a system notification
+ *
+ * The note says what happened to the recording (e.g. queued for retry).
+ */
+export function showError(error: AppError, note?: string) {
+  const report = toErrorReport(error);
+  if (note) {
+    report.message = `${report.message} ${note}`;
+  }
+  if (mainWindow) {
+    mainWindow.webContents.send('show-error', report);
+  }
+  notify(report.message);
+}
+
 /**
  * Show transcription result in main window
+ *
+ * With a note the result was not pasted, so the window is brought up without
+ * taking focus and the renderer offers a copy button.
  */
-export function showTranscriptionResult(text: string) {
+export function showTranscriptionResult(text: string, note?: string) {
   if (mainWindow) {
     const currentBounds = mainWindow.getBounds();
     const lines = text.split('\n').length;
@@ -189,7 +381,10 @@ export function showTranscriptionResult(text: string) {
       height: newHeight,
       width: Math.max(currentBounds.width, 400)
     });
-    mainWindow.webContents.send('show-transcription', text);
+    mainWindow.webContents.send('show-transcription', text, { pasted: !note, note: note || '' });
+    if (note && !mainWindow.isVisible()) {
+      mainWindow.showInactive();
+    }
   }
 }
 
@@ -210,9 +405,9 @@ export function createRecordingWindow() {
   const { width, height } = display.workAreaSize;
 
   const window = new BrowserWindow({
-    width: 200,
-    height: 60,
-    x: Math.floor((width - 200) / 2),
+    width: 240,
+    height: 96,
+    x: Math.floor((width - 240) / 2),
     y: Math.floor(height * 0.55),
     frame: false,
     transparent: true,
@@ -224,6 +419,7 @@ export function createRecordingWindow() {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      preload: path.join(__dirname, 'indicatorpreload.js'),
     }
   });
 
@@ -242,12 +438,32 @@ export function createRecordingWindow() {
           border: 1px solid rgba(239, 68, 68, 0.5);
           height: 100vh;
           display: flex;
-          align-items: center;
+          flex-direction: column;
           justify-content: center;
           padding: 0 16px;
-          gap: 12px;
+          gap: 8px;
           -webkit-app-region: drag;
         }
+        .row {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 12px;
+        }
+        .partial {
+          color: #cbd5e1;
+          font-size: 12px;
+          line-height: 1.4;
+          max-height: 50px;
+          overflow: hidden;
+          display: -webkit-box;
+          -webkit-line-clamp: 3;
+          -webkit-box-orient: vertical;
+        }
+        .partial:empty { display: none; }
+        .meter { width: 100%; height: 24px; display: block; }
+        .warning { color: #fbbf24; font-size: 11px; text-align: center; }
+        .warning[hidden] { display: none; }
         .dot {
           width: 10px;
           height: 10px;
@@ -287,12 +503,50 @@ export function createRecordingWindow() {
       </style>
     </head>
     <body>
-      <div class="dot"></div>
-      <span class="text">Recording</span>
-      <span class="time" id="timer">0:00</span>
-      <button class="cancel-btn" id="cancel" title="Cancel">✕</button>
+      <div class="row">
+        <div class="dot"></div>
+        <span class="text">${pushToTalkEnabled ? 'Release to send' : 'Recording'}</span>
+        <span class="time" id="timer">0:00</span>
+        <button class="cancel-btn" id="cancel" title="Cancel">✕</button>
+      </div>
+      <canvas class="meter" id="meter"></canvas>
+      <div class="warning" id="warning" hidden>No input detected. Is the microphone muted?</div>
+      <div class="partial" id="partial"></div>
       <script>
         document.getElementById('cancel').addEventListener('click', () => window.close());
+
+        // Scrolling bars of recent input levels
+        const canvas = document.getElementById('meter');
+        const context = canvas.getContext('2d');
+        const warning = document.getElementById('warning');
+        const BAR_WIDTH = 3;
+        const levels = [];
+
+        function draw() {
+          const ratio = window.devicePixelRatio || 1;
+          canvas.width = canvas.clientWidth * ratio;
+          canvas.height = canvas.clientHeight * ratio;
+          context.scale(ratio, ratio);
+
+          const width = canvas.clientWidth;
+          const height = canvas.clientHeight;
+          const count = Math.floor(width / BAR_WIDTH);
+          const visible = levels.slice(-count);
+          const offset = width - visible.length * BAR_WIDTH;
+
+          visible.forEach((level, i) => {
+            const barHeight = Math.max(1, level * height);
+            context.fillStyle = level > 0.9 ? '#f97316' : '#ef4444';
+            context.fillRect(offset + i * BAR_WIDTH, (height - barHeight) / 2, BAR_WIDTH - 1, barHeight);
+          });
+        }
+
+        window.indicator.onLevel((level) => {
+          levels.push(level.level);
+          if (levels.length > 200) levels.shift();
+          warning.hidden = !level.noInput;
+          draw();
+        });
       </script>
     </body>
     </html>
@@ -324,8 +578,8 @@ export function showRecordingIndicator() {
   createRecordingWindow();
   setRecordingStartTime(Date.now());
 
-  // Register ESC to cancel recording
-  globalShortcut.register('Escape', () => {
+  // Register the cancel shortcut (Escape by default) while recording
+  registerCancelHotkey(() => {
     if (isRecording) {
       cancelRecordingCallback?.();
     }
@@ -346,11 +600,45 @@ export function showRecordingIndicator() {
   setRecordingTimerInterval(interval);
 }
 
+/**
+ * Show partial transcript text in the recording indicator
+ */
+export function updateRecordingPartialText(text: string) {
+  if (!recordingWindow || recordingWindow.isDestroyed()) return;
+
+  // Grow the indicator once there is text to show
+  const bounds = recordingWindow.getBounds();
+  if (text && bounds.height < 150) {
+    const width = 420;
+    recordingWindow.setBounds({
+      x: bounds.x - Math.floor((width - bounds.width) / 2),
+      y: bounds.y,
+      width,
+      height: 150
+    });
+  }
+
+  // Only the tail fits in the indicator
+  const tail = text.length > 200 ? '…' + text.slice(-200) : text;
+  recordingWindow.webContents.executeJavaScript(
+    `document.getElementById('partial').textContent = ${JSON.stringify(tail)};`
+  ).catch(() => {});
+}
+
+/**
+ * Send the current input level to the recording indicator
+ */
+export function updateRecordingLevel(level: AudioLevel) {
+  if (recordingWindow && !recordingWindow.isDestroyed()) {
+    recordingWindow.webContents.send('audio-level', level);
+  }
+}
+
 /**
  * Hide the recording indicator
  */
 export function hideRecordingIndicator() {
-  globalShortcut.unregister('Escape');
+  unregisterCancelHotkey();
 
   if (recordingTimerInterval) {
     clearInterval(recordingTimerInterval);